@@ -0,0 +1,235 @@
+/**
+ * Command-line interface: argument parsing and command dispatch
+ */
+
+import { parseArgs } from 'node:util';
+import { syncCommand } from './commands/sync.js';
+import { backfillCommand } from './commands/backfill.js';
+import { reprocessCommand } from './commands/reprocess.js';
+import { statusCommand } from './commands/status.js';
+import { listCommand } from './commands/list.js';
+import { rebuildStateCommand } from './commands/rebuild-state.js';
+import { RunLock } from './services/run-lock.js';
+import { StateLockedError, createStateStorage } from './services/state-storage/index.js';
+import { loadConfig } from './utils/config.js';
+import { logger } from './utils/logger.js';
+import type {
+  CollisionStrategy,
+  ConfigOverrides,
+  MediaBackend,
+  StateBackend,
+  TranscriptMode,
+} from './types/index.js';
+
+const OPTIONS = {
+  'workspace-dir': { type: 'string' },
+  'output-dir': { type: 'string' },
+  'path-pattern': { type: 'string' },
+  'on-collision': { type: 'string' },
+  timezone: { type: 'string' },
+  template: { type: 'string' },
+  'speaker-aliases': { type: 'string' },
+  'transcript-mode': { type: 'string' },
+  'remove-fillers': { type: 'boolean' },
+  'archive-media': { type: 'boolean' },
+  'media-backend': { type: 'string' },
+  user: { type: 'string' },
+  users: { type: 'string' },
+  group: { type: 'string' },
+  'all-users': { type: 'boolean' },
+  'update-existing': { type: 'boolean' },
+  'git-commit': { type: 'boolean' },
+  'git-push': { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  concurrency: { type: 'string' },
+  'max-meetings': { type: 'string' },
+  'time-budget': { type: 'string' },
+  'state-backend': { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  limit: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+export type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+/**
+ * Parsed command line passed to each command
+ */
+export interface CommandArgs {
+  positionals: string[]; // Arguments after the command name
+  values: CliValues;
+  overrides: ConfigOverrides; // Config values set by flags
+}
+
+type Command = (args: CommandArgs) => Promise<number>;
+
+const COMMANDS: Record<string, Command> = {
+  sync: syncCommand,
+  backfill: backfillCommand,
+  reprocess: reprocessCommand,
+  status: statusCommand,
+  list: listCommand,
+  'rebuild-state': rebuildStateCommand,
+};
+
+// Commands that only read state and may run while another run holds the lock
+const READ_ONLY_COMMANDS = new Set(['status', 'list']);
+
+// Exit code when another run holds the lock (EX_TEMPFAIL: try again later)
+const EXIT_LOCKED = 75;
+
+export const USAGE = `Usage: zoom-to-markdown [command] [options]
+
+Commands:
+  sync                     Archive meetings since the last run (default)
+  backfill --from <date>   Archive meetings in a date range, ignoring the sync cursor
+           [--to <date>]   (dates as yyyy-MM-dd, --to defaults to today)
+  reprocess <uuid|path>    Regenerate one meeting's note, keeping hand-written edits
+  status                   Show run statistics and recent failures
+  list                     List archived meetings, newest first
+  rebuild-state            Recreate the state file from the notes' frontmatter
+
+Options (override the matching environment variables):
+  --workspace-dir <dir>    WORKSPACE_DIR
+  --output-dir <dir>       OUTPUT_DIR
+  --path-pattern <pattern> OUTPUT_PATH_PATTERN
+  --on-collision <mode>    ON_COLLISION (suffix, skip or overwrite)
+  --timezone <tz>          DISPLAY_TIMEZONE
+  --template <file>        TEMPLATE_PATH
+  --speaker-aliases <file> SPEAKER_ALIASES_PATH
+  --transcript-mode <mode> TRANSCRIPT_MODE (full or compact)
+  --remove-fillers         TRANSCRIPT_REMOVE_FILLERS
+  --archive-media          ARCHIVE_MEDIA: download recording media to the media store
+  --media-backend <name>   MEDIA_BACKEND (local or s3)
+  --user <id>              ZOOM_USER_ID
+  --users <ids>            ZOOM_USER_IDS (comma-separated)
+  --group <id>             ZOOM_GROUP_ID
+  --all-users              ZOOM_ALL_USERS
+  --update-existing        UPDATE_EXISTING
+  --git-commit             GIT_COMMIT
+  --git-push               GIT_PUSH
+  --dry-run                DRY_RUN: write nothing, show diffs of the notes that would change
+                           (rebuild-state: report what would be rebuilt)
+  --concurrency <n>        CONCURRENCY: meetings processed in parallel
+  --max-meetings <n>       MAX_RECORDINGS_PER_RUN: stop after n meetings, resume next run
+  --time-budget <minutes>  TIME_BUDGET_MINUTES: stop starting meetings after this long (0 = none)
+  --state-backend <name>   STATE_BACKEND (file, git or sqlite)
+
+  --limit <n>              list: show at most n meetings
+  --json                   status, list: print JSON
+  -h, --help               Show this help
+`;
+
+/**
+ * Run the command named on the command line and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [name = 'sync', ...rest] = positionals;
+  const command = COMMANDS[name];
+
+  if (!command) {
+    console.error(`Unknown command: ${name}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const overrides = toConfigOverrides(values);
+  let runLock: RunLock | undefined;
+
+  try {
+    if (!READ_ONLY_COMMANDS.has(name)) {
+      runLock = await acquireRunLock(overrides);
+    }
+
+    return await command({ positionals: rest, values, overrides });
+  } catch (error) {
+    if (error instanceof StateLockedError) {
+      logger.warning(`Another run is in progress, exiting. ${error.message}`);
+      return EXIT_LOCKED;
+    }
+
+    logger.error('Fatal error in main process', error as Error);
+    return 1;
+  } finally {
+    await runLock?.release().catch((error) => {
+      logger.error('Failed to release run lock', error as Error);
+    });
+  }
+}
+
+/**
+ * Lock the state for this run so overlapping runs cannot write the same notes.
+ * Dry runs write nothing, so they neither wait for nor block real runs.
+ */
+async function acquireRunLock(overrides: ConfigOverrides): Promise<RunLock | undefined> {
+  const config = loadConfig(overrides, { requireCredentials: false });
+
+  if (config.dryRun) {
+    return undefined;
+  }
+
+  const runLock = new RunLock(createStateStorage(config));
+  await runLock.acquire();
+  return runLock;
+}
+
+/**
+ * Map command-line flags to config overrides
+ */
+function toConfigOverrides(values: CliValues): ConfigOverrides {
+  return {
+    workspaceDir: values['workspace-dir'],
+    outputDir: values['output-dir'],
+    pathPattern: values['path-pattern'],
+    onCollision: values['on-collision'] as CollisionStrategy | undefined,
+    displayTimezone: values.timezone,
+    templatePath: values.template,
+    speakerAliasesPath: values['speaker-aliases'],
+    updateExisting: values['update-existing'],
+    dryRun: values['dry-run'],
+    concurrency: values.concurrency !== undefined ? parseInt(values.concurrency, 10) : undefined,
+    maxRecordingsPerRun:
+      values['max-meetings'] !== undefined ? parseInt(values['max-meetings'], 10) : undefined,
+    timeBudgetMinutes:
+      values['time-budget'] !== undefined ? parseFloat(values['time-budget']) : undefined,
+    zoom: { userId: values.user },
+    transcript: {
+      mode: values['transcript-mode'] as TranscriptMode | undefined,
+      removeFillers: values['remove-fillers'],
+    },
+    media: {
+      enabled: values['archive-media'],
+      backend: values['media-backend'] as MediaBackend | undefined,
+    },
+    state: { backend: values['state-backend'] as StateBackend | undefined },
+    users: {
+      userIds: values.users
+        ?.split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+      groupId: values.group,
+      allUsers: values['all-users'],
+    },
+    git: {
+      enabled: values['git-commit'],
+      push: values['git-push'],
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * backfill: archive meetings in an explicit date range, ignoring the sync cursor
+ */
+
+import { parse, isValid } from 'date-fns';
+import { withRun, finishRun } from './run.js';
+import type { CommandArgs } from '../cli.js';
+
+export async function backfillCommand({ values, overrides }: CommandArgs): Promise<number> {
+  if (!values.from) {
+    console.error('backfill requires --from <yyyy-MM-dd>');
+    return 2;
+  }
+
+  const from = parseDateArg(values.from, '--from');
+  const to = values.to ? parseDateArg(values.to, '--to') : new Date();
+
+  if (from > to) {
+    console.error('--from must not be after --to');
+    return 2;
+  }
+
+  return withRun(overrides, async (run) => finishRun(run, await run.archiver.sync({ from, to })));
+}
+
+/**
+ * Parse a yyyy-MM-dd command-line date (UTC, as the Zoom API queries by UTC date)
+ */
+function parseDateArg(value: string, flag: string): Date {
+  const date = parse(`${value}Z`, 'yyyy-MM-ddX', new Date());
+
+  if (!isValid(date)) {
+    throw new Error(`${flag} must be a date in yyyy-MM-dd format, got: ${value}`);
+  }
+
+  return date;
+}
@@ -0,0 +1,86 @@
+/**
+ * list: show archived meetings from the state file, newest first
+ */
+
+import path from 'path';
+import { StateManager } from '../services/state-manager.js';
+import { createStateStorage } from '../services/state-storage/index.js';
+import { parseMarkdown } from '../generators/markdown.js';
+import { fileExists, readFile } from '../utils/filesystem.js';
+import { loadConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { CommandArgs } from '../cli.js';
+
+interface ArchivedMeeting {
+  uuid: string;
+  title: string;
+  startTime: string;
+  filePath: string;
+  missing: boolean; // The note file no longer exists
+}
+
+export async function listCommand({ values, overrides }: CommandArgs): Promise<number> {
+  logger.setLevel('warning');
+
+  const limit = values.limit ? parseInt(values.limit, 10) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    console.error('--limit must be a positive number');
+    return 2;
+  }
+
+  const config = loadConfig(overrides, { requireCredentials: false });
+  const stateManager = new StateManager(createStateStorage(config));
+  await stateManager.load();
+
+  const meetings: ArchivedMeeting[] = [];
+
+  for (const record of Object.values(stateManager.getState().processedRecordings)) {
+    const filePath = path.resolve(config.workspaceDir, record.filePath);
+    const meeting: ArchivedMeeting = {
+      uuid: record.uuid,
+      title: '',
+      startTime: '',
+      filePath: path.relative(config.workspaceDir, filePath),
+      missing: !fileExists(filePath),
+    };
+
+    // Title and start time live in the note's frontmatter, not in state
+    if (!meeting.missing) {
+      try {
+        const { frontmatter } = parseMarkdown(await readFile(filePath));
+        meeting.title = String(frontmatter.title ?? '');
+        const startTime = frontmatter.start_time ?? frontmatter.date ?? '';
+        meeting.startTime = startTime instanceof Date ? startTime.toISOString() : String(startTime);
+      } catch {
+        // Unreadable notes are still listed by path
+      }
+    }
+
+    meetings.push(meeting);
+  }
+
+  meetings.sort((a, b) => b.startTime.localeCompare(a.startTime));
+  const shown = meetings.slice(0, limit);
+
+  if (values.json) {
+    console.log(JSON.stringify(shown, null, 2));
+    return 0;
+  }
+
+  if (shown.length === 0) {
+    console.log('No archived meetings');
+    return 0;
+  }
+
+  for (const meeting of shown) {
+    const date = meeting.startTime.slice(0, 16).replace('T', ' ').padEnd(16);
+    const title = meeting.missing ? '(note missing)' : meeting.title || '(untitled)';
+    console.log(`${date}  ${title}  ${meeting.filePath}`);
+  }
+
+  if (shown.length < meetings.length) {
+    console.log(`… and ${meetings.length - shown.length} more`);
+  }
+
+  return 0;
+}
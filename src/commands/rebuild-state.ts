@@ -0,0 +1,116 @@
+/**
+ * rebuild-state: recreate the archive records in the state file from the notes on disk
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { StateManager } from '../services/state-manager.js';
+import { createStateStorage } from '../services/state-storage/index.js';
+import { parseMarkdown } from '../generators/markdown.js';
+import { getFilesRecursively, readFile } from '../utils/filesystem.js';
+import { loadConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { CommandArgs } from '../cli.js';
+import type { ProcessedRecording } from '../types/index.js';
+
+export async function rebuildStateCommand({ overrides }: CommandArgs): Promise<number> {
+  const config = loadConfig(overrides, { requireCredentials: false });
+  const notesDir = path.resolve(config.workspaceDir, config.outputDir);
+  const stateManager = new StateManager(createStateStorage(config));
+
+  // Cursors, the retry queue and statistics are kept if the existing state is still readable
+  try {
+    await stateManager.load();
+  } catch (error) {
+    logger.warning('Existing state cannot be loaded, rebuilding from scratch', {
+      error: (error as Error).message,
+    });
+  }
+
+  logger.info('Scanning notes', { notesDir });
+
+  const { records, newestStart } = await scanNotes(notesDir, stateManager);
+  const lastFetchTimestamp = newestStart?.toISOString();
+  stateManager.rebuildProcessedRecordings(records, lastFetchTimestamp);
+
+  if (config.dryRun) {
+    logger.info(`🔍 Dry run: would rebuild state from ${records.length} notes`, {
+      lastFetchTimestamp,
+    });
+    return 0;
+  }
+
+  await stateManager.save();
+
+  logger.info(`✅ Rebuilt state from ${records.length} notes`, { lastFetchTimestamp });
+  return 0;
+}
+
+/**
+ * Build a processed-recording record for every note with a meeting uuid in its frontmatter
+ */
+async function scanNotes(
+  notesDir: string,
+  stateManager: StateManager
+): Promise<{ records: ProcessedRecording[]; newestStart?: Date }> {
+  const records = new Map<string, ProcessedRecording>();
+  let newestStart: Date | undefined;
+
+  for (const filePath of await getFilesRecursively(notesDir)) {
+    if (!filePath.endsWith('.md')) {
+      continue;
+    }
+
+    const content = await readFile(filePath);
+    let frontmatter: Record<string, unknown>;
+
+    try {
+      ({ frontmatter } = parseMarkdown(content));
+    } catch (error) {
+      logger.warning(`Skipping note with unreadable frontmatter: ${filePath}`, {
+        error: (error as Error).message,
+      });
+      continue;
+    }
+
+    const { uuid } = frontmatter;
+    if (typeof uuid !== 'string' || !uuid) {
+      logger.debug(`Skipping file without a meeting uuid: ${filePath}`);
+      continue;
+    }
+
+    const existing = records.get(uuid);
+    if (existing) {
+      logger.warning(`Meeting ${uuid} has more than one note, keeping ${existing.filePath}`, {
+        duplicate: filePath,
+      });
+      continue;
+    }
+
+    // YAML parses the offset timestamp into a Date; hand-edited notes may keep it as a string
+    const startTime =
+      frontmatter.start_time instanceof Date
+        ? frontmatter.start_time
+        : new Date(String(frontmatter.start_time));
+    if (!isNaN(startTime.getTime()) && (!newestStart || startTime > newestStart)) {
+      newestStart = startTime;
+    }
+
+    const previous = stateManager.getProcessedRecording(uuid);
+    const stats = await fs.stat(filePath);
+
+    // The hash is of the note as generated, before managed regions and hand edits were merged
+    // in, so the file on disk cannot reproduce it. Without a record for this note it is left
+    // unknown: the next update run regenerates the note (keeping the edits) and records it.
+    records.set(uuid, {
+      ...previous,
+      uuid,
+      meetingId: String(frontmatter.meeting_id ?? previous?.meetingId ?? ''),
+      processedAt: previous?.processedAt ?? stats.mtime.toISOString(),
+      filePath,
+      hash: previous?.filePath === filePath ? previous.hash : '',
+    });
+  }
+
+  return { records: [...records.values()], newestStart };
+}
@@ -0,0 +1,71 @@
+/**
+ * reprocess: regenerate one meeting's note, by meeting UUID or note path
+ */
+
+import path from 'path';
+import { withRun, publishNotes, reportPlannedChanges, type ArchiveRun } from './run.js';
+import { parseMarkdown } from '../generators/markdown.js';
+import { fileExists, readFile } from '../utils/filesystem.js';
+import { logger } from '../utils/logger.js';
+import type { CommandArgs } from '../cli.js';
+
+export async function reprocessCommand({ positionals, overrides }: CommandArgs): Promise<number> {
+  const [target] = positionals;
+
+  if (!target) {
+    console.error('reprocess requires a meeting UUID or note path');
+    return 2;
+  }
+
+  return withRun(overrides, (run) => reprocess(run, target));
+}
+
+/**
+ * Regenerate the note for a meeting UUID or note path
+ */
+async function reprocess(run: ArchiveRun, target: string): Promise<number> {
+  const { uuid, filePath } = await resolveReprocessTarget(target, run.config.workspaceDir);
+
+  const note = await run.archiver.reprocess(uuid, filePath);
+
+  if (!note) {
+    logger.warning('Nothing to write for this meeting', { uuid });
+    return 1;
+  }
+
+  if (run.config.dryRun) {
+    reportPlannedChanges(run);
+    return 0;
+  }
+
+  await run.stateManager.save();
+  await publishNotes(run, [note]);
+
+  logger.info(`✅ Reprocessed: ${note.title}`, { filePath: note.filePath });
+  return 0;
+}
+
+/**
+ * A note path is resolved to the meeting UUID in its frontmatter; anything else is a UUID
+ */
+async function resolveReprocessTarget(
+  target: string,
+  workspaceDir: string
+): Promise<{ uuid: string; filePath?: string }> {
+  const filePath = [path.resolve(target), path.resolve(workspaceDir, target)].find(fileExists);
+
+  if (!filePath) {
+    if (target.endsWith('.md')) {
+      throw new Error(`Note not found: ${target}`);
+    }
+    return { uuid: target };
+  }
+
+  const { frontmatter } = parseMarkdown(await readFile(filePath));
+
+  if (typeof frontmatter.uuid !== 'string' || !frontmatter.uuid) {
+    throw new Error(`Note has no meeting uuid in its frontmatter: ${filePath}`);
+  }
+
+  return { uuid: frontmatter.uuid, filePath };
+}
@@ -0,0 +1,143 @@
+/**
+ * Shared setup and teardown for commands that archive meetings
+ */
+
+import path from 'path';
+import { ZoomApiClient } from '../services/zoom-api.js';
+import { StateManager } from '../services/state-manager.js';
+import { createStateStorage } from '../services/state-storage/index.js';
+import { GitPublisher, type PublishedNote } from '../services/git-publisher.js';
+import { MeetingArchiver, type SyncResult } from '../services/archiver.js';
+import { loadTemplate } from '../generators/template.js';
+import { loadSpeakerAliases } from '../parsers/speaker-aliases.js';
+import { loadConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { Config, ConfigOverrides } from '../types/index.js';
+
+export interface ArchiveRun {
+  config: Config;
+  stateManager: StateManager;
+  archiver: MeetingArchiver;
+}
+
+/**
+ * Set up a run and load state, then run the task. Returns the task's exit code.
+ */
+export async function withRun(
+  overrides: ConfigOverrides,
+  task: (run: ArchiveRun) => Promise<number>
+): Promise<number> {
+  const run = await startRun(overrides);
+  await run.stateManager.load();
+  return task(run);
+}
+
+/**
+ * Load config and template, and create the archiver
+ */
+async function startRun(overrides: ConfigOverrides): Promise<ArchiveRun> {
+  logger.info('🚀 Zoom Meeting Notes Archiver started');
+
+  // Load configuration
+  const config = loadConfig(overrides);
+  logger.info('Configuration loaded', {
+    outputDir: config.outputDir,
+    actionItemsEnabled: config.enableActionItemExtraction,
+    gitCommit: config.git.enabled,
+    gitPush: config.git.enabled && config.git.push,
+    updateExisting: config.updateExisting,
+    templatePath: config.templatePath,
+    speakerAliasesPath: config.speakerAliasesPath,
+    pathPattern: config.pathPattern,
+    displayTimezone: config.displayTimezone || 'meeting timezone',
+    users: config.users,
+    dryRun: config.dryRun,
+    concurrency: config.concurrency,
+    stateBackend: config.state.backend,
+    maxRecordingsPerRun: config.maxRecordingsPerRun,
+    timeBudgetMinutes: config.timeBudgetMinutes,
+  });
+
+  // Load custom note template (fails fast on syntax errors)
+  const template = config.templatePath
+    ? await loadTemplate(path.resolve(config.workspaceDir, config.templatePath))
+    : undefined;
+
+  const speakerAliases = config.speakerAliasesPath
+    ? await loadSpeakerAliases(path.resolve(config.workspaceDir, config.speakerAliasesPath))
+    : undefined;
+
+  // Initialize services
+  const zoomClient = new ZoomApiClient(config.zoom, config.http);
+  const stateManager = new StateManager(createStateStorage(config));
+  const archiver = new MeetingArchiver(zoomClient, stateManager, config, template, speakerAliases);
+
+  return { config, stateManager, archiver };
+}
+
+/**
+ * Record the run's outcome, save state and publish notes (or report planned changes in
+ * dry-run mode). Returns the exit code.
+ */
+export async function finishRun(run: ArchiveRun, result: SyncResult): Promise<number> {
+  const { stateManager } = run;
+  const { stats } = result;
+
+  const runStatus =
+    stats.errors === 0
+      ? 'success'
+      : stats.errors < stats.success + stats.updated
+        ? 'partial'
+        : 'failure';
+
+  if (run.config.dryRun) {
+    reportPlannedChanges(run);
+  } else {
+    stateManager.updateStatistics(runStatus);
+    await stateManager.save();
+    await publishNotes(run, result.publishedNotes);
+  }
+
+  // Final summary
+  logger.info('📊 Processing Summary', {
+    users: result.users,
+    ...stats,
+    status: runStatus,
+    complete: result.complete,
+  });
+
+  // Only exit with error if there was a complete failure (more errors than successes)
+  return runStatus === 'failure' ? 1 : 0;
+}
+
+/**
+ * Print the notes a dry run would have written, with unified diffs against the files on disk
+ */
+export function reportPlannedChanges(run: ArchiveRun): void {
+  const changes = run.archiver.getPlannedChanges();
+  const created = changes.filter((change) => change.action === 'create').length;
+
+  logger.info(
+    `🔍 Dry run: ${created} note(s) would be created, ${changes.length - created} updated. ` +
+      'Nothing was written and state was not saved.'
+  );
+
+  for (const change of changes) {
+    logger.group(`${change.action === 'create' ? 'Create' : 'Update'}: ${change.filePath}`);
+    console.log(change.diff);
+    logger.endGroup();
+  }
+}
+
+/**
+ * Commit (and optionally push) the notes written in this run together with the state file,
+ * if state is kept in the workspace
+ */
+export async function publishNotes(run: ArchiveRun, notes: PublishedNote[]): Promise<void> {
+  if (!run.config.git.enabled) {
+    return;
+  }
+
+  const publisher = new GitPublisher(run.config.workspaceDir, run.config.git);
+  await publisher.publish(notes, run.stateManager.getTrackedFiles());
+}
@@ -0,0 +1,86 @@
+/**
+ * status: print run statistics, sync cursors, the retry queue and recent failures from the state file
+ */
+
+import { StateManager } from '../services/state-manager.js';
+import { createStateStorage } from '../services/state-storage/index.js';
+import { loadConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { CommandArgs } from '../cli.js';
+import type { RetryEntry } from '../types/index.js';
+
+const RETRY_REASONS: Record<RetryEntry['reason'], string> = {
+  error: 'error',
+  'no-content': 'no summary or transcript',
+  'no-summary': 'archived from transcript, waiting for AI summary',
+  media: 'archived, recording media not copied yet',
+};
+
+export async function statusCommand({ values, overrides }: CommandArgs): Promise<number> {
+  logger.setLevel('warning');
+
+  const config = loadConfig(overrides, { requireCredentials: false });
+  const stateManager = new StateManager(createStateStorage(config));
+  await stateManager.load();
+
+  const state = stateManager.getState();
+  const failures = state.recentFailures || [];
+  const retryQueue = stateManager
+    .getRetryQueue()
+    .sort((a, b) => a.meeting.start_time.localeCompare(b.meeting.start_time));
+
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        {
+          statistics: state.statistics,
+          lastFetchTimestamp: state.lastFetchTimestamp,
+          userCursors: state.userCursors || {},
+          retryQueue,
+          recentFailures: failures,
+        },
+        null,
+        2
+      )
+    );
+    return 0;
+  }
+
+  const { statistics } = state;
+  const lines = [
+    `Last run:             ${statistics.lastRunAt} (${statistics.lastRunStatus})`,
+    `Consecutive failures: ${statistics.consecutiveFailures}`,
+    `Meetings archived:    ${statistics.totalMeetings}`,
+    `Synced up to:         ${state.lastFetchTimestamp}`,
+  ];
+
+  for (const [userId, cursor] of Object.entries(state.userCursors || {})) {
+    lines.push(`  ${userId}: ${cursor}`);
+  }
+
+  const stuck = retryQueue.filter((entry) => !entry.nextRetryAt);
+  lines.push(
+    '',
+    retryQueue.length > 0
+      ? `Retry queue: ${retryQueue.length - stuck.length} waiting, ${stuck.length} given up`
+      : 'Retry queue is empty'
+  );
+
+  for (const entry of retryQueue) {
+    const next = entry.nextRetryAt ? `next retry ${entry.nextRetryAt}` : 'GAVE UP';
+    const reason = RETRY_REASONS[entry.reason];
+    lines.push(
+      `  ${entry.meeting.start_time}  ${entry.meeting.topic} (${entry.meeting.uuid})`,
+      `    ${reason}, ${entry.attempts} attempt(s), ${next}: ${entry.lastError}`
+    );
+  }
+
+  lines.push('', failures.length > 0 ? 'Recent failures:' : 'No recent failures');
+
+  for (const failure of failures) {
+    lines.push(`  ${failure.failedAt}  ${failure.topic} (${failure.uuid})`, `    ${failure.error}`);
+  }
+
+  console.log(lines.join('\n'));
+  return 0;
+}
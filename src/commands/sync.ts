@@ -0,0 +1,10 @@
+/**
+ * sync: archive meetings since the last run
+ */
+
+import { withRun, finishRun } from './run.js';
+import type { CommandArgs } from '../cli.js';
+
+export async function syncCommand({ overrides }: CommandArgs): Promise<number> {
+  return withRun(overrides, async (run) => finishRun(run, await run.archiver.sync()));
+}
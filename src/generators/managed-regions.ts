@@ -0,0 +1,225 @@
+/**
+ * Managed regions: generated sections delimited by HTML comments, so a regenerated
+ * note can replace them while keeping everything users wrote around them
+ */
+
+import matter from 'gray-matter';
+import { parseMarkdown } from './markdown.js';
+import { logger } from '../utils/logger.js';
+
+const MARKER_PREFIX = 'zoom-to-markdown';
+const START_PATTERN = new RegExp(`^<!-- ${MARKER_PREFIX}:start ([\\w-]+) -->$`);
+const END_PATTERN = new RegExp(`^<!-- ${MARKER_PREFIX}:end ([\\w-]+) -->$`);
+const CHECKBOX_PATTERN = /^(\s*[-*] \[)([ xX])(\] )(.*)$/;
+
+type BodyPart =
+  | { type: 'text'; lines: string[] }
+  | { type: 'region'; name: string; lines: string[] };
+
+/**
+ * Opening marker of a managed region
+ */
+export function regionStart(name: string): string {
+  return `<!-- ${MARKER_PREFIX}:start ${name} -->`;
+}
+
+/**
+ * Closing marker of a managed region
+ */
+export function regionEnd(name: string): string {
+  return `<!-- ${MARKER_PREFIX}:end ${name} -->`;
+}
+
+/**
+ * Merge a regenerated note into an existing file:
+ * - managed regions are replaced, added or removed to match the generated note
+ * - text outside managed regions (user sections, notes) is kept as-is
+ * - frontmatter keys from the generated note win, custom keys are kept
+ * - checked action items stay checked when the same item is regenerated
+ */
+export function mergeMarkdown(existingContent: string, generatedContent: string): string {
+  const existing = parseMarkdown(existingContent);
+  const generated = parseMarkdown(generatedContent);
+
+  const frontmatter = { ...existing.frontmatter, ...generated.frontmatter };
+  const existingParts = splitRegions(existing.body);
+  const generatedRegions = splitRegions(generated.body).filter(isRegion);
+
+  if (!existingParts.some(isRegion)) {
+    logger.debug('Existing note has no managed regions, keeping content below the footer');
+    return matter.stringify(mergeLegacyBody(existing.body, generated.body), frontmatter);
+  }
+
+  const checkedItems = collectCheckedItems(existingParts);
+  const generatedByName = new Map(generatedRegions.map((region) => [region.name, region]));
+
+  // Replace regions in place; drop regions the generator no longer emits
+  const parts: BodyPart[] = [];
+  let droppedRegion = false;
+  for (const part of existingParts) {
+    if (!isRegion(part)) {
+      // Avoid leaving a double blank line where a region was removed
+      const lines = droppedRegion && part.lines[0] === '' ? part.lines.slice(1) : part.lines;
+      parts.push({ ...part, lines });
+      droppedRegion = false;
+      continue;
+    }
+
+    const replacement = generatedByName.get(part.name);
+    droppedRegion = !replacement;
+    if (replacement) {
+      parts.push(restoreCheckedItems(replacement, checkedItems));
+      generatedByName.delete(part.name);
+    }
+  }
+
+  // Insert new regions after the closest preceding region in generated order
+  for (const [index, region] of generatedRegions.entries()) {
+    if (!generatedByName.has(region.name)) {
+      continue;
+    }
+
+    const precedingNames = generatedRegions.slice(0, index).map((r) => r.name);
+    const anchor = findLastIndex(parts, (p) => isRegion(p) && precedingNames.includes(p.name));
+    const insertAt = anchor === -1 ? parts.findIndex(isRegion) : anchor + 1;
+
+    parts.splice(
+      Math.max(insertAt, 0),
+      0,
+      { type: 'text', lines: [''] },
+      restoreCheckedItems(region, checkedItems)
+    );
+    generatedByName.delete(region.name);
+  }
+
+  return matter.stringify(joinRegions(parts), frontmatter);
+}
+
+/**
+ * Split a Markdown body into managed regions and the free text between them
+ */
+function splitRegions(body: string): BodyPart[] {
+  const parts: BodyPart[] = [];
+  let text: string[] = [];
+  let region: { name: string; lines: string[] } | null = null;
+
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim();
+
+    if (!region) {
+      const start = trimmed.match(START_PATTERN);
+      if (start) {
+        if (text.length > 0) {
+          parts.push({ type: 'text', lines: text });
+          text = [];
+        }
+        region = { name: start[1], lines: [] };
+      } else {
+        text.push(line);
+      }
+      continue;
+    }
+
+    const end = trimmed.match(END_PATTERN);
+    if (end && end[1] === region.name) {
+      parts.push({ type: 'region', ...region });
+      region = null;
+    } else {
+      region.lines.push(line);
+    }
+  }
+
+  // An unterminated region is treated as user text so nothing is lost
+  if (region) {
+    text.push(regionStart(region.name), ...region.lines);
+  }
+  if (text.length > 0) {
+    parts.push({ type: 'text', lines: text });
+  }
+
+  return parts;
+}
+
+/**
+ * Join parts back into a Markdown body
+ */
+function joinRegions(parts: BodyPart[]): string {
+  const lines = parts.flatMap((part) =>
+    isRegion(part) ? [regionStart(part.name), ...part.lines, regionEnd(part.name)] : part.lines
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Action items (by normalized text) that users ticked in the existing note
+ */
+function collectCheckedItems(parts: BodyPart[]): Set<string> {
+  const checked = new Set<string>();
+
+  for (const part of parts) {
+    for (const line of part.lines) {
+      const match = line.match(CHECKBOX_PATTERN);
+      if (match && match[2] !== ' ') {
+        checked.add(normalizeItemText(match[4]));
+      }
+    }
+  }
+
+  return checked;
+}
+
+/**
+ * Tick regenerated checkboxes whose text was ticked before
+ */
+function restoreCheckedItems(
+  region: Extract<BodyPart, { type: 'region' }>,
+  checkedItems: Set<string>
+): BodyPart {
+  if (checkedItems.size === 0) {
+    return region;
+  }
+
+  const lines = region.lines.map((line) => {
+    const match = line.match(CHECKBOX_PATTERN);
+    if (match && checkedItems.has(normalizeItemText(match[4]))) {
+      return `${match[1]}x${match[3]}${match[4]}`;
+    }
+    return line;
+  });
+
+  return { ...region, lines };
+}
+
+/**
+ * Merge notes written before managed regions existed: keep content below the footer
+ */
+function mergeLegacyBody(existingBody: string, generatedBody: string): string {
+  const lines = existingBody.split('\n');
+  const footerIndex = lines.findIndex((line) => line.startsWith('*Meeting UUID:'));
+  const userContent =
+    footerIndex === -1
+      ? ''
+      : lines
+          .slice(footerIndex + 1)
+          .join('\n')
+          .trim();
+
+  return userContent ? `${generatedBody.trimEnd()}\n\n${userContent}\n` : generatedBody;
+}
+
+function normalizeItemText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isRegion(part: BodyPart): part is Extract<BodyPart, { type: 'region' }> {
+  return part.type === 'region';
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
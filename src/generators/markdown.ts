@@ -2,22 +2,35 @@
  * Markdown file generator with YAML frontmatter
  */
 
+import path from 'path';
 import matter from 'gray-matter';
-import { format } from 'date-fns';
-import type { MeetingNote } from '../types/index.js';
+import { formatInTimezone, toIsoWithOffset, timezoneAbbreviation } from '../utils/timezone.js';
+import { renderTemplate } from './template.js';
+import { DEFAULT_TEMPLATE } from './templates/default.js';
+import { normalizeTranscript } from '../parsers/transcript-normalizer.js';
+import type { MeetingNote, TranscriptConfig, ZoomMeetingSummary } from '../types/index.js';
+
+export interface MarkdownOptions {
+  template?: string; // Handlebars template for the note body, defaults to the built-in template
+  zoomSummary?: ZoomMeetingSummary; // Raw Zoom AI summary, exposed to templates
+  transcript?: TranscriptConfig; // Transcript rendering, defaults to one line per cue
+  notePath?: string; // Where the note is written, for links to locally stored media
+}
 
 /**
  * Generate Markdown content from meeting note data
  */
-export function generateMarkdown(note: MeetingNote): string {
+export function generateMarkdown(note: MeetingNote, options: MarkdownOptions = {}): string {
   const { metadata, transcript, actionItems } = note;
+  const timezone = metadata.timezone || 'UTC';
 
   // Prepare frontmatter
   const frontmatter = {
     title: metadata.title,
     meeting_id: metadata.meetingId,
     uuid: metadata.uuid,
-    start_time: metadata.startTime,
+    start_time: toIsoWithOffset(metadata.startTime, timezone),
+    timezone,
     duration: metadata.duration,
     host: metadata.host,
     participants: metadata.participants,
@@ -25,82 +38,69 @@ export function generateMarkdown(note: MeetingNote): string {
     transcript_available: metadata.transcriptAvailable,
   };
 
-  // Format date and time
-  const startDate = new Date(metadata.startTime);
-  const formattedDate = format(startDate, 'MMMM d, yyyy');
-  const formattedTime = format(startDate, 'h:mm a');
-  const durationMinutes = Math.round(metadata.duration / 60);
+  const transcriptMode = options.transcript?.mode ?? 'full';
+  const { segments } = options.transcript
+    ? normalizeTranscript(transcript, options.transcript)
+    : transcript;
+
+  // Group consecutive segments from same speaker. Compact paragraphs each get a heading,
+  // since consecutive paragraphs from one speaker are separated by a pause.
+  const transcriptSegments = segments.map((segment, index) => ({
+    ...segment,
+    showSpeaker:
+      transcriptMode === 'compact' ||
+      index === 0 ||
+      segment.speaker !== segments[index - 1].speaker,
+  }));
+
+  const body = renderTemplate(options.template ?? DEFAULT_TEMPLATE, {
+    note,
+    zoomSummary: options.zoomSummary,
+    metadata,
+    date: formatInTimezone(metadata.startTime, 'MMMM d, yyyy', timezone),
+    time: formatInTimezone(metadata.startTime, 'h:mm a', timezone),
+    timezone: timezoneAbbreviation(metadata.startTime, timezone),
+    durationMinutes: Math.round(metadata.duration / 60),
+    // Sort by confidence (highest first)
+    actionItems: [...actionItems].sort((a, b) => b.confidence - a.confidence),
+    transcriptSegments,
+    transcriptMode,
+    mediaFiles: (note.media ?? []).map((media) => ({
+      ...media,
+      link: mediaLink(media.location, options.notePath),
+    })),
+    source: describeSource(note),
+  });
 
-  // Build markdown body
-  const sections: string[] = [];
+  // Combine frontmatter and body using gray-matter
+  const content = matter.stringify(body, frontmatter);
 
-  // Title and metadata section
-  sections.push(`# ${metadata.title}`);
-  sections.push('');
-  sections.push(`**Date:** ${formattedDate}`);
-  sections.push(`**Time:** ${formattedTime} UTC`);
-  sections.push(`**Duration:** ${durationMinutes} minutes`);
-  sections.push(`**Host:** ${metadata.host}`);
-  sections.push('');
+  return content;
+}
 
-  // Participants section
-  if (metadata.participants.length > 0) {
-    sections.push('## Participants');
-    for (const participant of metadata.participants) {
-      const isHost = participant === metadata.host;
-      sections.push(`- ${participant}${isHost ? ' (Host)' : ''}`);
-    }
-    sections.push('');
+/**
+ * Link to a stored media file: URLs as-is, local files relative to the note
+ */
+function mediaLink(location: string, notePath?: string): string {
+  if (!path.isAbsolute(location)) {
+    return location;
   }
 
-  // Action items section
-  if (actionItems.length > 0) {
-    sections.push('## Action Items');
-    sections.push('> ⚠️ Note: Action items are automatically extracted and may require verification.');
-    sections.push('');
-
-    // Sort by confidence (highest first)
-    const sortedItems = [...actionItems].sort((a, b) => b.confidence - a.confidence);
+  const relative = notePath ? path.relative(path.dirname(notePath), location) : location;
+  return encodeURI(relative.split(path.sep).join('/'));
+}
 
-    for (const item of sortedItems) {
-      const assigneePart = item.assignee ? ` (${item.assignee})` : '';
-      const dueDatePart = item.dueDate ? ` - Due: ${item.dueDate}` : '';
-      sections.push(`- [ ] ${item.text}${assigneePart}${dueDatePart}`);
-    }
-    sections.push('');
+/**
+ * Describe where the note's content came from, for the footer
+ */
+function describeSource(note: MeetingNote): string {
+  if (note.summary && note.metadata.transcriptAvailable) {
+    return 'Zoom AI Companion summary and Cloud Recording transcript';
   }
-
-  // Transcript section
-  if (transcript.segments.length > 0) {
-    sections.push('## Full Transcript');
-    sections.push('');
-
-    let lastSpeaker = '';
-
-    for (const segment of transcript.segments) {
-      // Group consecutive segments from same speaker
-      if (segment.speaker !== lastSpeaker) {
-        sections.push(`**[${segment.timestamp}] ${segment.speaker}:**`);
-        lastSpeaker = segment.speaker;
-      }
-
-      sections.push(segment.text);
-      sections.push('');
-    }
+  if (note.summary) {
+    return 'Zoom AI Companion summary';
   }
-
-  // Footer
-  sections.push('---');
-  sections.push('');
-  sections.push('*This meeting note was automatically generated from Zoom Cloud Recording.*');
-  sections.push(`*Meeting UUID: ${metadata.uuid}*`);
-
-  const body = sections.join('\n');
-
-  // Combine frontmatter and body using gray-matter
-  const content = matter.stringify(body, frontmatter);
-
-  return content;
+  return 'Zoom Cloud Recording';
 }
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Companion .meta.json generator: the recording file inventory next to a note
+ */
+
+import type {
+  MeetingMeta,
+  MeetingNote,
+  RecordingFile,
+  ZoomMeetingSummary,
+  ZoomRecording,
+} from '../types/index.js';
+
+// Query parameters that grant access to a recording and must not end up in the repository
+const SECRET_PARAMS = /token|pwd|passcode|password|signature/i;
+
+/**
+ * Generate the companion metadata for a note. Times and URLs come from Zoom as-is,
+ * so an unchanged meeting always produces the same file.
+ */
+export function generateMeta(
+  note: MeetingNote,
+  recording?: ZoomRecording,
+  summary?: ZoomMeetingSummary
+): string {
+  const meta: MeetingMeta = {
+    uuid: note.metadata.uuid,
+    meetingId: note.metadata.meetingId,
+    title: note.metadata.title,
+    startTime: note.metadata.startTime,
+    shareUrl: recording?.share_url ? stripSecrets(recording.share_url) : undefined,
+    summaryDocUrl: summary?.summary_doc_url ? stripSecrets(summary.summary_doc_url) : undefined,
+    recordingFiles: (recording?.recording_files ?? []).map(describeFile),
+  };
+
+  return `${JSON.stringify(meta, null, 2)}\n`;
+}
+
+function describeFile(file: RecordingFile): MeetingMeta['recordingFiles'][number] {
+  return {
+    id: file.id,
+    type: file.file_type,
+    recordingType: file.recording_type,
+    extension: file.file_extension,
+    size: file.file_size,
+    recordingStart: file.recording_start,
+    recordingEnd: file.recording_end,
+    status: file.status,
+    playUrl: file.play_url ? stripSecrets(file.play_url) : undefined,
+  };
+}
+
+/**
+ * Remove access tokens and passcodes from a URL
+ */
+function stripSecrets(value: string): string {
+  try {
+    const url = new URL(value);
+
+    for (const name of [...url.searchParams.keys()]) {
+      if (SECRET_PARAMS.test(name)) {
+        url.searchParams.delete(name);
+      }
+    }
+
+    return url.toString();
+  } catch {
+    // Not a URL we can parse, keep only the part before any query string
+    return value.split('?')[0];
+  }
+}
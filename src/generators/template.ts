@@ -0,0 +1,131 @@
+/**
+ * Handlebars template rendering for meeting notes
+ */
+
+import Handlebars from 'handlebars';
+import { regionStart, regionEnd } from './managed-regions.js';
+import { readFile } from '../utils/filesystem.js';
+import { formatInTimezone } from '../utils/timezone.js';
+import type {
+  MeetingNote,
+  MeetingMetadata,
+  ActionItem,
+  TranscriptSegment,
+  TranscriptMode,
+  ArchivedMedia,
+  ZoomMeetingSummary,
+} from '../types/index.js';
+
+/**
+ * Data available to note templates
+ */
+export interface TemplateContext {
+  note: MeetingNote; // The full meeting note
+  zoomSummary?: ZoomMeetingSummary; // Raw Zoom AI summary, when the note was built from one
+  metadata: MeetingMetadata;
+  date: string; // e.g. "March 10, 2024"
+  time: string; // e.g. "9:30 AM"
+  timezone: string; // Short zone name at the meeting start, e.g. "PDT"
+  durationMinutes: number;
+  actionItems: ActionItem[]; // Sorted by confidence, highest first
+  transcriptSegments: Array<TranscriptSegment & { showSpeaker: boolean }>; // Per transcriptMode
+  transcriptMode: TranscriptMode; // note.transcript always holds the per-cue segments
+  mediaFiles: Array<ArchivedMedia & { link: string }>; // Archived recording media, linkable from the note
+  source: string; // Where the note's content came from, for the footer
+}
+
+const handlebars = Handlebars.create();
+const compiledTemplates = new Map<string, Handlebars.TemplateDelegate<TemplateContext>>();
+
+/**
+ * Wrap block content in a managed region (see managed-regions.ts)
+ */
+handlebars.registerHelper(
+  'region',
+  function (this: unknown, name: string, options: Handlebars.HelperOptions) {
+    return `${regionStart(name)}\n${options.fn(this)}${regionEnd(name)}\n`;
+  }
+);
+
+/**
+ * Format an ISO date with a date-fns pattern, in the note's timezone
+ */
+handlebars.registerHelper(
+  'formatDate',
+  (value: string, pattern: unknown, options?: Handlebars.HelperOptions) => {
+    if (!value) {
+      return '';
+    }
+
+    // Called as {{formatDate value}}, Handlebars passes its options in place of the pattern
+    const helperOptions = (
+      typeof pattern === 'string' ? options : pattern
+    ) as Handlebars.HelperOptions;
+    const timezone: string | undefined = helperOptions?.data?.root?.metadata?.timezone;
+
+    return formatInTimezone(value, typeof pattern === 'string' ? pattern : 'yyyy-MM-dd', timezone);
+  }
+);
+
+/**
+ * Convert seconds to whole minutes
+ */
+handlebars.registerHelper('minutes', (seconds: number) => Math.round((seconds || 0) / 60));
+
+/**
+ * Convert bytes to megabytes, one decimal
+ */
+handlebars.registerHelper('megabytes', (bytes: number) => ((bytes || 0) / 1024 / 1024).toFixed(1));
+
+/**
+ * Escape characters that would break a Markdown table cell
+ */
+handlebars.registerHelper('escapeCell', (value: unknown) =>
+  String(value ?? '')
+    .replace(/\|/g, '\\|')
+    .replace(/\n/g, ' ')
+);
+
+/**
+ * Whether a participant is the meeting host
+ */
+handlebars.registerHelper(
+  'isHost',
+  function (this: unknown, participant: string, options: Handlebars.HelperOptions) {
+    const host: string = options.data?.root?.metadata?.host || '';
+    return String(participant).toLowerCase() === host.toLowerCase();
+  }
+);
+
+handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+
+/**
+ * Render a note body with a Handlebars template
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  let compiled = compiledTemplates.get(template);
+
+  if (!compiled) {
+    // Notes are Markdown, not HTML, so values are not escaped
+    compiled = handlebars.compile<TemplateContext>(template, { noEscape: true });
+    compiledTemplates.set(template, compiled);
+  }
+
+  return compiled(context).trimEnd();
+}
+
+/**
+ * Load a user-supplied template file
+ */
+export async function loadTemplate(templatePath: string): Promise<string> {
+  try {
+    const template = await readFile(templatePath);
+
+    // Compile eagerly so syntax errors surface before any meeting is processed
+    handlebars.precompile(template);
+
+    return template;
+  } catch (error) {
+    throw new Error(`Failed to load template ${templatePath}: ${(error as Error).message}`);
+  }
+}
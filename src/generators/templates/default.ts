@@ -0,0 +1,123 @@
+/**
+ * Built-in note template (Handlebars)
+ *
+ * Custom templates receive the same context, see TemplateContext in ../template.ts.
+ * Wrap generated sections in {{#region "name"}} blocks so regenerated notes can be
+ * merged with hand-written edits.
+ */
+
+export const DEFAULT_TEMPLATE = `{{#region "header"}}
+# {{metadata.title}}
+
+**Date:** {{date}}
+**Time:** {{time}} {{timezone}}
+**Duration:** {{durationMinutes}} minutes
+**Host:** {{metadata.host}}
+{{/region}}
+
+{{#if metadata.participants.length}}
+{{#region "participants"}}
+## Participants
+{{#each metadata.participants}}
+- {{this}}{{#if (isHost this)}} (Host){{/if}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if metadata.attendance.length}}
+{{#region "attendance"}}
+## Attendance
+
+| Name | Email | Joined | Left | Time Attended |
+|------|-------|--------|------|---------------|
+{{#each metadata.attendance}}
+| {{escapeCell name}} | {{email}} | {{formatDate joinTime "h:mm a"}} | {{formatDate leaveTime "h:mm a"}} | {{minutes duration}} min |
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if actionItems.length}}
+{{#region "action-items"}}
+## Action Items
+> ⚠️ Note: Action items are automatically extracted and may require verification.
+
+{{#each actionItems}}
+- [ ] {{text}}{{#if assignee}} ({{assignee}}){{/if}}{{#if dueDate}} - Due: {{dueDate}}{{/if}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if note.summary.overview}}
+{{#region "summary"}}
+## Summary
+
+{{note.summary.overview}}
+{{/region}}
+
+{{/if}}
+{{#if note.summary.sections.length}}
+{{#region "discussion-notes"}}
+## Discussion Notes
+{{#each note.summary.sections}}
+
+### {{label}}
+
+{{summary}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if mediaFiles.length}}
+{{#region "recordings"}}
+## Recordings
+
+| File | Type | Size | SHA-256 |
+|------|------|------|---------|
+{{#each mediaFiles}}
+| [{{fileName}}]({{link}}) | {{recordingType}} | {{megabytes size}} MB | \`{{sha256}}\` |
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if note.chat.messages.length}}
+{{#region "chat"}}
+## Chat
+{{#each note.chat.messages}}
+
+**[{{timestamp}}] {{sender}}:**{{#if replyTo}} _(replying to "{{replyTo}}…")_{{/if}}
+{{text}}{{#if reactions.length}} _({{#each reactions}}{{#unless @first}}, {{/unless}}{{emoji}} {{senders.length}}{{/each}})_{{/if}}
+{{/each}}
+{{#if note.chat.links.length}}
+
+### Links Shared
+{{#each note.chat.links}}
+- {{url}} ({{sender}}, {{timestamp}})
+{{/each}}
+{{/if}}
+{{/region}}
+
+{{/if}}
+{{#if transcriptSegments.length}}
+{{#region "transcript"}}
+## Full Transcript
+{{#each transcriptSegments}}
+
+{{#if showSpeaker}}
+{{#if (eq @root.transcriptMode "compact")}}
+**[{{timestamp}}–{{endTimestamp}}] {{speaker}}:**
+{{else}}
+**[{{timestamp}}] {{speaker}}:**
+{{/if}}
+{{/if}}
+{{text}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#region "footer"}}
+---
+
+*This meeting note was automatically generated from {{source}}.*
+*Meeting UUID: {{metadata.uuid}}*
+{{/region}}
+`;
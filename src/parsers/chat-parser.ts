@@ -0,0 +1,166 @@
+/**
+ * Zoom in-meeting chat parser (the CHAT recording file, plain text)
+ */
+
+import { logger } from '../utils/logger.js';
+import type { ChatMessage, ParsedChat, SharedLink } from '../types/index.js';
+
+// "00:05:12 From Jane Doe to Everyone: text" (newer exports put the text on the following,
+// tab-indented lines), or "00:05:12\t From  Jane Doe : text" in older ones
+const MESSAGE_HEADER = /^(\d{1,2}:\d{2}:\d{2})\s+From\s+(.+?)(?:\s+to\s+(.+?))?\s*:(?:\s+(.*))?$/;
+
+// Threaded reply, first line of the message: Replying to "Start of the original...":
+const REPLY = /^Replying to "(.*)":?$/s;
+
+// Reactions are exported as their own messages
+const REACTION = /^Reacted to "(.*)" with (.+)$/s;
+const REACTION_REMOVED = /^Removed a (.+?) reaction from "(.*)"$/s;
+
+const LINK = /\bhttps?:\/\/[^\s<>"]+/g;
+
+const EVERYONE = /^everyone(?:\s*\(.*\))?$/i;
+
+/**
+ * Parse a chat export into messages to everyone, with replies and reactions attached.
+ * Direct messages are left out: they were not said to the meeting.
+ */
+export function parseChat(content: string): ParsedChat {
+  const entries: ChatMessage[] = [];
+  let current: ChatMessage | undefined;
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const header = line.match(MESSAGE_HEADER);
+
+    if (header) {
+      const [, timestamp, sender, recipient, text] = header;
+      current = {
+        timestamp: timestamp.padStart(8, '0'),
+        sender: sender.trim(),
+        recipient: recipient && !EVERYONE.test(recipient.trim()) ? recipient.trim() : undefined,
+        text: text?.trim() ?? '',
+      };
+      entries.push(current);
+    } else if (current && line.trim()) {
+      // Continuation of a multi-line message
+      current.text = current.text ? `${current.text}\n${line.trim()}` : line.trim();
+    }
+  }
+
+  const messages: ChatMessage[] = [];
+  let directMessages = 0;
+
+  for (const entry of entries) {
+    if (entry.recipient) {
+      directMessages++;
+      continue;
+    }
+
+    const reaction = entry.text.match(REACTION);
+    if (reaction) {
+      addReaction(messages, reaction[1], reaction[2].trim(), entry.sender);
+      continue;
+    }
+
+    const removed = entry.text.match(REACTION_REMOVED);
+    if (removed) {
+      removeReaction(messages, removed[2], removed[1].trim(), entry.sender);
+      continue;
+    }
+
+    const [firstLine, ...rest] = entry.text.split('\n');
+    const reply = firstLine.match(REPLY);
+    if (reply && rest.length > 0) {
+      messages.push({ ...entry, text: rest.join('\n'), replyTo: trimExcerpt(reply[1]) });
+      continue;
+    }
+
+    if (entry.text) {
+      messages.push(entry);
+    }
+  }
+
+  if (directMessages > 0) {
+    logger.debug(`Skipped ${directMessages} direct chat messages`);
+  }
+  logger.debug(`Parsed chat: ${messages.length} messages`);
+
+  return { messages, links: collectLinks(messages) };
+}
+
+/**
+ * Every URL posted in the chat, first occurrence only
+ */
+function collectLinks(messages: ChatMessage[]): SharedLink[] {
+  const links = new Map<string, SharedLink>();
+
+  for (const message of messages) {
+    for (const match of message.text.matchAll(LINK)) {
+      // Sentence punctuation right after a URL is not part of it
+      const url = match[0].replace(/[.,;:!?)\]]+$/, '');
+      if (!links.has(url)) {
+        links.set(url, { url, sender: message.sender, timestamp: message.timestamp });
+      }
+    }
+  }
+
+  return [...links.values()];
+}
+
+function addReaction(
+  messages: ChatMessage[],
+  excerpt: string,
+  emoji: string,
+  sender: string
+): void {
+  const target = findQuoted(messages, excerpt);
+  if (!target) {
+    return;
+  }
+
+  target.reactions ??= [];
+  const reaction = target.reactions.find((r) => r.emoji === emoji);
+
+  if (!reaction) {
+    target.reactions.push({ emoji, senders: [sender] });
+  } else if (!reaction.senders.includes(sender)) {
+    reaction.senders.push(sender);
+  }
+}
+
+function removeReaction(
+  messages: ChatMessage[],
+  excerpt: string,
+  emoji: string,
+  sender: string
+): void {
+  const target = findQuoted(messages, excerpt);
+  const reaction = target?.reactions?.find((r) => r.emoji === emoji);
+  if (!target || !reaction) {
+    return;
+  }
+
+  reaction.senders = reaction.senders.filter((s) => s !== sender);
+  target.reactions = target.reactions?.filter((r) => r.senders.length > 0);
+}
+
+/**
+ * Latest message starting with a quoted excerpt. Zoom truncates quotes and adds "...".
+ */
+function findQuoted(messages: ChatMessage[], excerpt: string): ChatMessage | undefined {
+  const start = trimExcerpt(excerpt);
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].text.replace(/\s+/g, ' ').startsWith(start)) {
+      return messages[i];
+    }
+  }
+
+  return undefined;
+}
+
+function trimExcerpt(excerpt: string): string {
+  return excerpt
+    .replace(/(\.\.\.|…)$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,124 @@
+/**
+ * Participant report parser: collapses rejoins into one attendance record per person
+ */
+
+import type { ZoomParticipant, MeetingParticipant, MeetingNote } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+interface Session {
+  start: number;
+  end: number;
+}
+
+/**
+ * Merge duplicate participant sessions (rejoins, reconnects) into one entry per person
+ */
+export function dedupeParticipants(sessions: ZoomParticipant[]): MeetingParticipant[] {
+  const grouped = new Map<string, ZoomParticipant[]>();
+
+  for (const session of sessions) {
+    const key = participantKey(session);
+    grouped.set(key, [...(grouped.get(key) || []), session]);
+  }
+
+  const participants = [...grouped.values()].map(mergeSessions);
+  participants.sort((a, b) => a.joinTime.localeCompare(b.joinTime));
+
+  logger.debug(
+    `Deduplicated ${sessions.length} participant sessions into ${participants.length} participants`
+  );
+
+  return participants;
+}
+
+/**
+ * Replace the note's participant list with the attendance report
+ */
+export function applyAttendance(note: MeetingNote, attendance: MeetingParticipant[]): MeetingNote {
+  const participants = new Set(
+    attendance.map((participant) => participant.email || participant.name)
+  );
+  const host = note.metadata.host;
+
+  // The host may have joined under a different display name without an email
+  const hostAttended = [...participants].some((p) => p.toLowerCase() === host.toLowerCase());
+
+  return {
+    ...note,
+    metadata: {
+      ...note.metadata,
+      participants: hostAttended ? [...participants] : [host, ...participants],
+      attendance,
+    },
+  };
+}
+
+/**
+ * Identify the person behind a session: email, then Zoom user ID, then display name
+ */
+function participantKey(session: ZoomParticipant): string {
+  if (session.user_email) {
+    return `email:${session.user_email.toLowerCase()}`;
+  }
+  if (session.id) {
+    return `id:${session.id}`;
+  }
+  return `name:${session.name.trim().toLowerCase()}`;
+}
+
+/**
+ * Merge all sessions of one person into a single attendance record
+ */
+function mergeSessions(sessions: ZoomParticipant[]): MeetingParticipant {
+  const intervals: Session[] = sessions
+    .map((session) => ({
+      start: new Date(session.join_time).getTime(),
+      end: new Date(session.leave_time).getTime(),
+    }))
+    .filter(
+      (session) => !isNaN(session.start) && !isNaN(session.end) && session.end >= session.start
+    )
+    .sort((a, b) => a.start - b.start);
+
+  // Prefer the most recent non-empty name and email
+  const named = [...sessions].reverse();
+  const name = named.find((s) => s.name?.trim())?.name.trim() || 'Unknown';
+  const email = named.find((s) => s.user_email)?.user_email?.toLowerCase() || undefined;
+
+  if (intervals.length === 0) {
+    return {
+      name,
+      email,
+      joinTime: sessions[0].join_time,
+      leaveTime: sessions[sessions.length - 1].leave_time,
+      duration: sessions.reduce((total, s) => total + (s.duration || 0), 0),
+    };
+  }
+
+  return {
+    name,
+    email,
+    joinTime: new Date(intervals[0].start).toISOString(),
+    leaveTime: new Date(Math.max(...intervals.map((i) => i.end))).toISOString(),
+    duration: Math.round(sumOverlappingIntervals(intervals) / 1000),
+  };
+}
+
+/**
+ * Total time covered by sorted intervals, counting overlaps (e.g. two devices) once
+ */
+function sumOverlappingIntervals(intervals: Session[]): number {
+  let total = 0;
+  let current = { ...intervals[0] };
+
+  for (const interval of intervals.slice(1)) {
+    if (interval.start <= current.end) {
+      current.end = Math.max(current.end, interval.end);
+    } else {
+      total += current.end - current.start;
+      current = { ...interval };
+    }
+  }
+
+  return total + (current.end - current.start);
+}
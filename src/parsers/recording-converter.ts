@@ -0,0 +1,87 @@
+/**
+ * Convert Zoom cloud recording transcripts to our MeetingNote format
+ */
+
+import type {
+  ZoomRecording,
+  RecordingFile,
+  MeetingNote,
+  ParsedTranscript,
+} from '../types/index.js';
+import { extractActionItems } from './action-items.js';
+import { logger } from '../utils/logger.js';
+
+export interface RecordingConversionOptions {
+  enableActionItemExtraction?: boolean;
+}
+
+/**
+ * Find the completed transcript file of a recording, if any
+ */
+export function findTranscriptFile(recording: ZoomRecording): RecordingFile | undefined {
+  return recording.recording_files.find(
+    (file) => file.file_type === 'TRANSCRIPT' && file.status === 'completed'
+  );
+}
+
+/**
+ * Find the completed in-meeting chat file of a recording, if any
+ */
+export function findChatFile(recording: ZoomRecording): RecordingFile | undefined {
+  return recording.recording_files.find(
+    (file) => file.file_type === 'CHAT' && file.status === 'completed'
+  );
+}
+
+/**
+ * Convert a cloud recording and its parsed transcript to MeetingNote format
+ */
+export function convertRecordingToMeetingNote(
+  recording: ZoomRecording,
+  transcript: ParsedTranscript,
+  options: RecordingConversionOptions = {}
+): MeetingNote {
+  logger.debug('Converting cloud recording transcript to MeetingNote format');
+
+  const actionItems =
+    options.enableActionItemExtraction === false ? [] : extractActionItems(transcript);
+
+  return {
+    metadata: {
+      title: recording.topic,
+      meetingId: recording.id.toString(),
+      uuid: recording.uuid,
+      startTime: recording.start_time,
+      duration: recording.duration * 60, // Zoom reports recording duration in minutes
+      host: recording.host_email,
+      // Transcript speakers are not a reliable attendee list; the attendance report replaces this
+      participants: [recording.host_email],
+      recordingCount: recording.recording_count,
+      transcriptAvailable: true,
+    },
+    transcript,
+    actionItems,
+  };
+}
+
+/**
+ * Merge a cloud recording transcript into a note built from the Zoom AI summary.
+ * Summary sections and next steps are kept; the verbatim transcript is added alongside.
+ */
+export function mergeTranscriptIntoNote(
+  note: MeetingNote,
+  recording: ZoomRecording,
+  transcript: ParsedTranscript
+): MeetingNote {
+  logger.debug('Merging cloud recording transcript into AI summary note');
+
+  return {
+    ...note,
+    metadata: {
+      ...note.metadata,
+      recordingCount: recording.recording_count,
+      transcriptAvailable: transcript.segments.length > 0,
+    },
+    transcript,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Speaker alias map: normalizes the names and emails people show up under
+ * ("iPhone (2)", "jdoe", "jane@example.com") to one canonical name
+ */
+
+import { z } from 'zod';
+import { readFile } from '../utils/filesystem.js';
+import { logger } from '../utils/logger.js';
+import type { MeetingNote } from '../types/index.js';
+
+/**
+ * Lowercased alias (display name or email) → canonical name
+ */
+export type SpeakerAliases = Map<string, string>;
+
+// { "Jane Doe": ["iPhone (2)", "jane@example.com"], "Bob Smith": "bob@example.com" }
+const AliasFileSchema = z.record(z.union([z.string().min(1), z.array(z.string().min(1))]));
+
+/**
+ * Build the alias map from the parsed alias file
+ */
+export function parseSpeakerAliases(data: unknown): SpeakerAliases {
+  const aliases: SpeakerAliases = new Map();
+
+  for (const [canonical, names] of Object.entries(AliasFileSchema.parse(data))) {
+    for (const name of [canonical, ...[names].flat()]) {
+      const key = name.trim().toLowerCase();
+      const existing = aliases.get(key);
+
+      if (existing && existing !== canonical) {
+        throw new Error(`"${name}" is an alias of both "${existing}" and "${canonical}"`);
+      }
+      aliases.set(key, canonical);
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Load a JSON alias file, mapping each canonical name to its aliases
+ */
+export async function loadSpeakerAliases(filePath: string): Promise<SpeakerAliases> {
+  try {
+    const aliases = parseSpeakerAliases(JSON.parse(await readFile(filePath)));
+    logger.debug(`Loaded ${aliases.size} speaker aliases`, { filePath });
+    return aliases;
+  } catch (error) {
+    throw new Error(`Failed to load speaker aliases ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Canonical name for a display name or email, or the name itself if it has no alias
+ */
+export function resolveSpeaker(name: string, aliases: SpeakerAliases): string {
+  return aliases.get(name.trim().toLowerCase()) ?? name;
+}
+
+/**
+ * Replace aliases with canonical names in the transcript, chat, host, participants,
+ * attendance and action item assignees
+ */
+export function applySpeakerAliases(note: MeetingNote, aliases: SpeakerAliases): MeetingNote {
+  if (aliases.size === 0) {
+    return note;
+  }
+
+  const resolve = (name: string) => resolveSpeaker(name, aliases);
+  const { metadata, transcript } = note;
+
+  return {
+    ...note,
+    metadata: {
+      ...metadata,
+      host: resolve(metadata.host),
+      // Aliases of one person collapse into a single entry
+      participants: [...new Set(metadata.participants.map(resolve))],
+      attendance: metadata.attendance?.map((participant) => ({
+        ...participant,
+        name: aliases.get(participant.email?.toLowerCase() ?? '') ?? resolve(participant.name),
+      })),
+    },
+    transcript: {
+      ...transcript,
+      segments: transcript.segments.map((segment) => ({
+        ...segment,
+        speaker: resolve(segment.speaker),
+      })),
+    },
+    chat: note.chat && {
+      messages: note.chat.messages.map((message) => ({
+        ...message,
+        sender: resolve(message.sender),
+        reactions: message.reactions?.map((reaction) => ({
+          ...reaction,
+          senders: [...new Set(reaction.senders.map(resolve))],
+        })),
+      })),
+      links: note.chat.links.map((link) => ({ ...link, sender: resolve(link.sender) })),
+    },
+    actionItems: note.actionItems.map((item) =>
+      item.assignee ? { ...item, assignee: resolve(item.assignee) } : item
+    ),
+  };
+}
@@ -2,7 +2,7 @@
  * Convert Zoom AI Meeting Summary to our MeetingNote format
  */
 
-import type { ZoomMeetingSummary, MeetingNote, ActionItem, ParsedTranscript } from '../types/index.js';
+import type { ZoomMeetingSummary, MeetingNote, ActionItem } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -18,16 +18,7 @@ export function convertZoomSummaryToMeetingNote(summary: ZoomMeetingSummary): Me
     confidence: 0.95, // High confidence since it's from Zoom AI
   }));
 
-  // Create a pseudo-transcript from summary details
   const summaryDetails = summary.summary_details || [];
-  const transcript: ParsedTranscript = {
-    segments: summaryDetails.map((detail, index) => ({
-      speaker: detail.label || 'Summary',  // Use label as speaker
-      timestamp: formatTimestamp(index),
-      text: detail.summary,  // Use summary field
-    })),
-    rawText: summaryDetails.map((d) => d.summary).join('\n\n'),
-  };
 
   // Extract key points from summary details (all labels)
   const keyPoints = summaryDetails.map((d) => d.label);
@@ -42,9 +33,17 @@ export function convertZoomSummaryToMeetingNote(summary: ZoomMeetingSummary): Me
       host: summary.meeting_host_email,
       participants: [summary.meeting_host_email], // AI summary doesn't include participant list
       recordingCount: 0,
-      transcriptAvailable: false, // Using AI summary instead
+      transcriptAvailable: false, // Set when a cloud recording transcript is merged in
+    },
+    summary: {
+      overview: summary.summary_overview,
+      sections: summaryDetails.map((detail) => ({
+        label: detail.label,
+        summary: detail.summary,
+      })),
+      docUrl: summary.summary_doc_url,
     },
-    transcript,
+    transcript: { segments: [], rawText: '' },
     actionItems,
     keyPoints,
   };
@@ -59,12 +58,3 @@ function calculateDuration(startTime: string, endTime: string): number {
   return Math.floor((end - start) / 1000);
 }
 
-/**
- * Format a fake timestamp for summary segments
- */
-function formatTimestamp(index: number): string {
-  const minutes = index * 5; // Assume 5 minutes per section
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}:00`;
-}
@@ -0,0 +1,108 @@
+/**
+ * Transcript normalizer: turns Zoom's many short cues into readable paragraphs
+ */
+
+import { logger } from '../utils/logger.js';
+import type { ParsedTranscript, TranscriptConfig, TranscriptSegment } from '../types/index.js';
+
+// Standalone hesitation sounds, with the comma or ellipsis that usually follows them
+const FILLER_WORDS = /\b(?:u+m+|u+h+m*|e+r+m+|h+m+)\b(?:,|…|\.{3})?\s*/gi;
+
+// A word immediately repeated ("I I think", "the the"), keeping the first occurrence
+const REPEATED_WORD = /\b([\w']+)(?:\s+\1\b)+/gi;
+
+/**
+ * Apply the configured transcript rendering: filler removal, then (in compact mode)
+ * merging consecutive turns. The parsed transcript itself is left untouched.
+ */
+export function normalizeTranscript(
+  transcript: ParsedTranscript,
+  config: TranscriptConfig
+): ParsedTranscript {
+  let normalized = transcript;
+
+  if (config.removeFillers) {
+    normalized = removeFillerWords(normalized);
+  }
+
+  if (config.mode === 'compact') {
+    normalized = mergeSegments(normalized, config.mergeGapSeconds);
+  }
+
+  return normalized;
+}
+
+/**
+ * Drop filler words and repeated words, and segments left empty by that
+ */
+export function removeFillerWords(transcript: ParsedTranscript): ParsedTranscript {
+  const segments = transcript.segments
+    .map((segment) => ({ ...segment, text: stripFillers(segment.text) }))
+    .filter((segment) => segment.text.length > 0);
+
+  return withSegments(segments);
+}
+
+/**
+ * Merge consecutive segments from the same speaker into one paragraph when the pause
+ * between them is at most `maxGapSeconds`. Paragraphs keep the first start and last end time.
+ */
+export function mergeSegments(
+  transcript: ParsedTranscript,
+  maxGapSeconds: number
+): ParsedTranscript {
+  const paragraphs: TranscriptSegment[] = [];
+
+  for (const segment of transcript.segments) {
+    const previous = paragraphs[paragraphs.length - 1];
+
+    if (
+      previous &&
+      previous.speaker === segment.speaker &&
+      toSeconds(segment.timestamp) - toSeconds(previous.endTimestamp ?? previous.timestamp) <=
+        maxGapSeconds
+    ) {
+      previous.text = `${previous.text} ${segment.text}`;
+      previous.endTimestamp = segment.endTimestamp ?? segment.timestamp;
+    } else {
+      paragraphs.push({ ...segment, endTimestamp: segment.endTimestamp ?? segment.timestamp });
+    }
+  }
+
+  logger.debug(
+    `Merged ${transcript.segments.length} transcript segments into ${paragraphs.length} paragraphs`
+  );
+
+  return withSegments(paragraphs);
+}
+
+/**
+ * Remove fillers from one segment's text, keeping its sentence capitalized
+ */
+function stripFillers(text: string): string {
+  const stripped = text
+    .replace(FILLER_WORDS, '')
+    .replace(REPEATED_WORD, '$1')
+    .replace(/\s+([,.?!])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .replace(/^[,.…\s]+/, '') // Punctuation left behind by a leading filler ("Hmm." -> ".")
+    .trim();
+
+  // "Um, so we shipped" -> "So we shipped"
+  if (/^[A-Z]/.test(text) && /^[a-z]/.test(stripped)) {
+    return stripped[0].toUpperCase() + stripped.slice(1);
+  }
+
+  return stripped;
+}
+
+/**
+ * Seconds since the start of the recording for an HH:MM:SS timestamp
+ */
+function toSeconds(timestamp: string): number {
+  return timestamp.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+function withSegments(segments: TranscriptSegment[]): ParsedTranscript {
+  return { segments, rawText: segments.map((s) => s.text).join(' ') };
+}
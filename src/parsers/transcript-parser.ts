@@ -5,61 +5,75 @@
 import { logger } from '../utils/logger.js';
 import type { ParsedTranscript, TranscriptSegment } from '../types/index.js';
 
+/**
+ * A cue's times and text, before speakers are assigned
+ */
+interface Cue {
+  timestamp: string;
+  endTimestamp: string;
+  text: string;
+  voice?: string; // Speaker from a WebVTT <v> tag
+}
+
+// "Speaker Name: text". The colon must be followed by whitespace, so times ("10:30") and URLs don't match
+const SPEAKER_PREFIX = /^([^:?!"<>]{1,50}?):\s+(.+)$/s;
+
+// Labels people say before a colon that are not speaker names ("Note: we shipped it")
+const NON_SPEAKER_LABELS =
+  /^(note|notes|action items?|next steps?|to-?do|todo|reminder|question|answer|update|agenda|decision|summary|fyi|ps|important|warning|example|step \d+)$/i;
+
+// Header, comment, style sheet and region blocks carry no speech
+const NON_CUE_BLOCK = /^(WEBVTT|NOTE|STYLE|REGION)(\s|$)/;
+
+// <v Name> or <v.class Name>, optionally closed by </v>
+const VOICE_TAG = /<v(?:\.[^\s>]*)?\s+([^>]*)>/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
 /**
  * Parse WebVTT (VTT) transcript format
  * Format:
  * WEBVTT
  *
  * 1
- * 00:00:00.000 --> 00:00:05.000
+ * 00:00:00.000 --> 00:00:05.000 align:start
  * Speaker Name: Text content
+ * that can span several lines
+ *
+ * 00:00:05.000 --> 00:00:09.000
+ * <v Other Speaker>Text with a voice tag</v>
  */
-export function parseVTT(content: string): ParsedTranscript {
-  const segments: TranscriptSegment[] = [];
-  const lines = content.split('\n');
-
-  let currentTimestamp = '';
-  let currentText = '';
+export function parseVTT(content: string, knownSpeakers: Iterable<string> = []): ParsedTranscript {
+  const cues: Cue[] = [];
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    // Skip WEBVTT header and empty lines
-    if (line === 'WEBVTT' || line === '' || /^\d+$/.test(line)) {
+  for (const lines of splitBlocks(content)) {
+    if (NON_CUE_BLOCK.test(lines[0])) {
       continue;
     }
 
-    // Check if line is a timestamp
-    if (line.includes('-->')) {
-      currentTimestamp = line.split('-->')[0].trim();
+    // The timing line comes first, or after an optional cue identifier
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
       continue;
     }
 
-    // This is text content
-    if (currentTimestamp) {
-      currentText = line;
-
-      // Extract speaker and text
-      const { speaker, text } = extractSpeakerAndText(currentText);
-
-      if (text) {
-        segments.push({
-          speaker,
-          timestamp: formatTimestamp(currentTimestamp),
-          text,
-        });
-      }
-
-      currentTimestamp = '';
-      currentText = '';
-    }
+    // Cue settings ("align:start position:10%") follow the end time and are ignored
+    const [start, end] = lines[timingIndex].split('-->');
+    const times = { timestamp: start.trim(), endTimestamp: end.trim().split(/\s+/)[0] };
+    cues.push(...parseCuePayload(times, lines.slice(timingIndex + 1)));
   }
 
-  const rawText = segments.map((s) => s.text).join(' ');
-
+  const segments = assignSpeakers(cues, knownSpeakers);
   logger.debug(`Parsed VTT transcript: ${segments.length} segments`);
 
-  return { segments, rawText };
+  return { segments, rawText: segments.map((s) => s.text).join(' ') };
 }
 
 /**
@@ -69,86 +83,126 @@ export function parseVTT(content: string): ParsedTranscript {
  * 00:00:00,000 --> 00:00:05,000
  * Speaker Name: Text content
  */
-export function parseSRT(content: string): ParsedTranscript {
-  const segments: TranscriptSegment[] = [];
-  const lines = content.split('\n');
-
-  let currentTimestamp = '';
-  let currentText: string[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    // Skip sequence numbers and empty lines at start
-    if (line === '' || /^\d+$/.test(line)) {
-      // If we have accumulated text, process it
-      if (currentText.length > 0 && currentTimestamp) {
-        const fullText = currentText.join(' ');
-        const { speaker, text } = extractSpeakerAndText(fullText);
-
-        if (text) {
-          segments.push({
-            speaker,
-            timestamp: formatTimestamp(currentTimestamp),
-            text,
-          });
-        }
-
-        currentText = [];
-        currentTimestamp = '';
-      }
-      continue;
-    }
+export function parseSRT(content: string, knownSpeakers: Iterable<string> = []): ParsedTranscript {
+  const cues: Cue[] = [];
 
-    // Check if line is a timestamp
-    if (line.includes('-->')) {
-      currentTimestamp = line.split('-->')[0].trim();
+  for (const lines of splitBlocks(content)) {
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) {
       continue;
     }
 
-    // This is text content
-    if (currentTimestamp) {
-      currentText.push(line);
-    }
+    const [start, end] = lines[timingIndex].split('-->');
+    const times = { timestamp: start.trim(), endTimestamp: end.trim() };
+    cues.push(...parseCuePayload(times, lines.slice(timingIndex + 1)));
   }
 
-  // Process any remaining text
-  if (currentText.length > 0 && currentTimestamp) {
-    const fullText = currentText.join(' ');
-    const { speaker, text } = extractSpeakerAndText(fullText);
+  const segments = assignSpeakers(cues, knownSpeakers);
+  logger.debug(`Parsed SRT transcript: ${segments.length} segments`);
 
-    if (text) {
-      segments.push({
-        speaker,
-        timestamp: formatTimestamp(currentTimestamp),
-        text,
-      });
-    }
+  return { segments, rawText: segments.map((s) => s.text).join(' ') };
+}
+
+/**
+ * Split a transcript into blank-line separated blocks of non-empty lines
+ */
+function splitBlocks(content: string): string[][] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map((block) =>
+      block
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+    )
+    .filter((lines) => lines.length > 0);
+}
+
+/**
+ * Turn a cue's text lines into one cue per voice. Lines are joined with spaces and
+ * markup (<c>, <i>, inline timestamps) is removed.
+ */
+function parseCuePayload(times: Pick<Cue, 'timestamp' | 'endTimestamp'>, lines: string[]): Cue[] {
+  const payload = lines.join('\n');
+  const voices = [...payload.matchAll(VOICE_TAG)];
+
+  if (voices.length === 0) {
+    const text = cleanText(payload);
+    return text ? [{ ...times, text }] : [];
   }
 
-  const rawText = segments.map((s) => s.text).join(' ');
+  const cues: Cue[] = [];
+  const leading = cleanText(payload.slice(0, voices[0].index));
+  if (leading) {
+    cues.push({ ...times, text: leading });
+  }
 
-  logger.debug(`Parsed SRT transcript: ${segments.length} segments`);
+  voices.forEach((match, index) => {
+    const end = voices[index + 1]?.index ?? payload.length;
+    const text = cleanText(payload.slice(match.index + match[0].length, end));
+    if (text) {
+      cues.push({ ...times, text, voice: cleanText(match[1]) || undefined });
+    }
+  });
+
+  return cues;
+}
 
-  return { segments, rawText };
+/**
+ * Strip markup, decode entities and collapse whitespace
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
 }
 
 /**
- * Extract speaker name and text from a line
- * Format: "Speaker Name: Text content" or just "Text content"
+ * Assign speakers to cues: voice tags first, then "Name: text" prefixes. Zoom writes the
+ * prefix on every cue, so a prefix names a speaker only if it repeats or is a known name
+ * (a voice, participant or alias); otherwise it is an ordinary sentence with a colon.
  */
-function extractSpeakerAndText(line: string): { speaker: string; text: string } {
-  const colonIndex = line.indexOf(':');
-
-  if (colonIndex > 0 && colonIndex < 50) {
-    // Likely has speaker name
-    const speaker = line.substring(0, colonIndex).trim();
-    const text = line.substring(colonIndex + 1).trim();
-    return { speaker, text };
+function assignSpeakers(cues: Cue[], knownSpeakers: Iterable<string>): TranscriptSegment[] {
+  const known = new Set([...knownSpeakers].map((name) => name.trim().toLowerCase()));
+  const prefixCounts = new Map<string, number>();
+
+  for (const cue of cues) {
+    if (cue.voice) {
+      known.add(cue.voice.toLowerCase());
+      continue;
+    }
+    const speaker = cue.text.match(SPEAKER_PREFIX)?.[1].trim();
+    if (speaker) {
+      prefixCounts.set(speaker, (prefixCounts.get(speaker) || 0) + 1);
+    }
   }
 
-  // No speaker identified
-  return { speaker: 'Unknown', text: line.trim() };
+  const isSpeaker = (name: string) =>
+    known.has(name.toLowerCase()) ||
+    ((prefixCounts.get(name) || 0) > 1 && !NON_SPEAKER_LABELS.test(name));
+
+  return cues.map((cue) => {
+    const timestamp = formatTimestamp(cue.timestamp);
+    const endTimestamp = formatTimestamp(cue.endTimestamp);
+
+    if (cue.voice) {
+      return { speaker: cue.voice, timestamp, endTimestamp, text: cue.text };
+    }
+
+    const match = cue.text.match(SPEAKER_PREFIX);
+    const speaker = match?.[1].trim();
+
+    if (match && speaker && isSpeaker(speaker)) {
+      return { speaker, timestamp, endTimestamp, text: match[2].trim() };
+    }
+
+    // No speaker identified
+    return { speaker: 'Unknown', timestamp, endTimestamp, text: cue.text };
+  });
 }
 
 /**
@@ -156,31 +210,36 @@ function extractSpeakerAndText(line: string): { speaker: string; text: string }
  */
 function formatTimestamp(timestamp: string): string {
   // Remove milliseconds and normalize separators
-  return timestamp
-    .replace(/,/g, '.')
-    .split('.')[0]
-    .trim();
+  const time = timestamp.replace(/,/g, '.').split('.')[0].trim();
+
+  // WebVTT allows omitting the hours
+  return /^\d{2}:\d{2}$/.test(time) ? `00:${time}` : time;
 }
 
 /**
- * Auto-detect format and parse transcript
+ * Auto-detect format and parse transcript. knownSpeakers are names (participants, aliases)
+ * that are taken as speakers even if their "Name:" prefix appears only once.
  */
-export function parseTranscript(content: string, fileExtension: string): ParsedTranscript {
+export function parseTranscript(
+  content: string,
+  fileExtension: string,
+  knownSpeakers: Iterable<string> = []
+): ParsedTranscript {
   const normalizedExt = fileExtension.toLowerCase();
 
   if (normalizedExt === 'vtt') {
-    return parseVTT(content);
+    return parseVTT(content, knownSpeakers);
   } else if (normalizedExt === 'srt') {
-    return parseSRT(content);
+    return parseSRT(content, knownSpeakers);
   }
 
   // Try to detect based on content
   if (content.includes('WEBVTT')) {
     logger.debug('Auto-detected VTT format');
-    return parseVTT(content);
+    return parseVTT(content, knownSpeakers);
   }
 
   // Default to SRT
   logger.debug('Defaulting to SRT format');
-  return parseSRT(content);
+  return parseSRT(content, knownSpeakers);
 }
@@ -0,0 +1,1252 @@
+/**
+ * Meeting archiver: fetches meetings from Zoom and writes them as Markdown notes
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import { ZoomApiClient } from './zoom-api.js';
+import { StateManager } from './state-manager.js';
+import type { PublishedNote } from './git-publisher.js';
+import { convertZoomSummaryToMeetingNote } from '../parsers/summary-converter.js';
+import {
+  convertRecordingToMeetingNote,
+  findTranscriptFile,
+  findChatFile,
+  mergeTranscriptIntoNote,
+} from '../parsers/recording-converter.js';
+import { parseTranscript } from '../parsers/transcript-parser.js';
+import { parseChat } from '../parsers/chat-parser.js';
+import { dedupeParticipants, applyAttendance } from '../parsers/participants.js';
+import { applySpeakerAliases, type SpeakerAliases } from '../parsers/speaker-aliases.js';
+import { generateMarkdown, parseMarkdown } from '../generators/markdown.js';
+import { mergeMarkdown } from '../generators/managed-regions.js';
+import { generateMeta } from '../generators/meta.js';
+import { MediaArchiver } from './media-archiver.js';
+import { createMediaStorage } from './media-storage/index.js';
+import { writeFile, fileExists, readFile } from '../utils/filesystem.js';
+import { resolveNotePath, resolveCollision, metaFilePath } from '../utils/note-path.js';
+import { resolveTimezone } from '../utils/timezone.js';
+import { sanitizeTitle, extractShortUuid } from '../utils/sanitize.js';
+import { createUnifiedDiff } from '../utils/diff.js';
+import { runPool, createLock } from '../utils/async.js';
+import { logger } from '../utils/logger.js';
+import type {
+  Config,
+  ZoomMeeting,
+  ZoomMeetingSummary,
+  ZoomRecording,
+  ZoomUser,
+  MeetingNote,
+  ParsedTranscript,
+  ParsedChat,
+  ProcessedRecording,
+  RetryEntry,
+} from '../types/index.js';
+
+type RecordingLookup = (uuid: string) => Promise<ZoomRecording | undefined>;
+
+/**
+ * A Zoom user whose meetings are archived in this run
+ */
+export interface ArchiveTarget {
+  userId?: string; // Unset for the single configured user, which keeps the global cursor
+  label: string;
+  outputDir: string; // Absolute directory the user's notes are written to
+}
+
+/**
+ * Outcome counts for a run, across all users
+ */
+export interface RunStats {
+  total: number;
+  success: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  retried: number; // Queued meetings retried this run
+  queued: number; // Meetings (re)queued for a later retry
+  deferred: number; // Meetings left for the next run once the run budget was used up
+}
+
+export interface SyncOptions {
+  from?: Date; // Fetch from this date instead of each user's cursor (cursors are left as-is)
+  to?: Date; // Defaults to now
+}
+
+export interface SyncResult {
+  users: number;
+  stats: RunStats;
+  publishedNotes: PublishedNote[];
+  complete: boolean; // False when the run budget stopped the run early
+}
+
+/**
+ * A note written for a meeting: its state record, and what may still be added to it later
+ */
+interface ArchivedNote {
+  record: ProcessedRecording;
+  hasSummary: boolean; // False when archived from the transcript alone
+  mediaPending: boolean; // Some recording media could not be copied
+}
+
+/**
+ * Outcome of archiving a new meeting
+ */
+type ProcessResult =
+  | ({ status: 'archived' } & ArchivedNote)
+  | { status: 'no-content' } // No AI summary or transcript (yet)
+  | { status: 'skipped' }; // Not written, e.g. its path is taken
+
+/**
+ * A note write skipped in dry-run mode
+ */
+export interface NoteChange {
+  filePath: string;
+  action: 'create' | 'update';
+  diff: string; // Unified diff against the note on disk
+}
+
+/**
+ * Services and settings shared by every meeting processed for a user
+ */
+interface SyncContext {
+  findRecording: RecordingLookup;
+  outputDir: string;
+  userId?: string;
+}
+
+/**
+ * Shared bookkeeping for one sync across all users
+ */
+interface SyncRun {
+  stats: RunStats;
+  publishedNotes: PublishedNote[];
+  handledUuids: Set<string>;
+  budget: RunBudget;
+}
+
+/**
+ * A meeting to handle in a sync: listed by Zoom, or due in the retry queue
+ */
+interface MeetingJob {
+  meeting: ZoomMeeting;
+  context: SyncContext;
+  retry: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// AI summaries appear within hours of a meeting; older meetings without one won't get one
+const PENDING_CONTENT_WINDOW_MS = 3 * DAY_MS;
+
+// Upper bound for the retry queue's exponential backoff
+const MAX_RETRY_DELAY_MINUTES = 24 * 60;
+
+/**
+ * Per-run limits on meetings processed and wall-clock time
+ */
+class RunBudget {
+  private remaining: number;
+  private deadline: number;
+
+  constructor(maxMeetings: number, timeBudgetMinutes: number) {
+    this.remaining = maxMeetings;
+    this.deadline = timeBudgetMinutes > 0 ? Date.now() + timeBudgetMinutes * 60 * 1000 : Infinity;
+  }
+
+  get exhausted(): boolean {
+    return this.remaining <= 0 || Date.now() >= this.deadline;
+  }
+
+  /**
+   * Claim the budget for one meeting; false once the cap or the deadline is reached
+   */
+  take(): boolean {
+    if (this.exhausted) {
+      return false;
+    }
+    this.remaining--;
+    return true;
+  }
+}
+
+export class MeetingArchiver {
+  private zoomClient: ZoomApiClient;
+  private stateManager: StateManager;
+  private config: Config;
+  private template?: string; // Custom note template, if configured
+  private speakerAliases?: SpeakerAliases; // Canonical names for speakers and participants
+  private mediaArchiver?: MediaArchiver; // Set when recording media is archived
+  private plannedChanges: NoteChange[] = []; // Writes skipped in dry-run mode
+  private plannedNotes = new Map<string, string>(); // Dry run: paths claimed by new notes, by meeting UUID
+  private withPathLock = createLock(); // Serializes choosing and writing new note paths
+
+  constructor(
+    zoomClient: ZoomApiClient,
+    stateManager: StateManager,
+    config: Config,
+    template?: string,
+    speakerAliases?: SpeakerAliases
+  ) {
+    this.zoomClient = zoomClient;
+    this.stateManager = stateManager;
+    this.config = config;
+    this.template = template;
+    this.speakerAliases = speakerAliases;
+
+    if (config.media.enabled) {
+      this.mediaArchiver = new MediaArchiver(zoomClient, createMediaStorage(config), config);
+    }
+  }
+
+  /**
+   * Archive new meetings for every configured user, and re-check recent ones in update mode
+   */
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    const targets = await this.resolveTargets();
+    const to = options.to ?? new Date();
+
+    const run: SyncRun = {
+      stats: {
+        total: 0,
+        success: 0,
+        updated: 0,
+        skipped: 0,
+        errors: 0,
+        retried: 0,
+        queued: 0,
+        deferred: 0,
+      },
+      publishedNotes: [],
+      // A meeting can show up under several users (host and participants), write it once
+      handledUuids: new Set<string>(),
+      budget: new RunBudget(this.config.maxRecordingsPerRun, this.config.timeBudgetMinutes),
+    };
+
+    for (const target of targets) {
+      // Users not reached keep their cursors and are synced by the next run
+      if (run.budget.exhausted) {
+        logger.info(`Run budget reached, skipping user until the next run: ${target.label}`);
+        continue;
+      }
+
+      if (targets.length > 1) {
+        logger.group(`User: ${target.label}`);
+      }
+
+      try {
+        await this.syncTarget(target, { from: options.from, to }, run);
+      } catch (error) {
+        // A single configured user keeps the old behaviour: failing to list meetings is fatal
+        if (!target.userId) {
+          throw error;
+        }
+
+        run.stats.errors++;
+        logger.error(`Failed to sync meetings for user: ${target.label}`, error as Error);
+      } finally {
+        if (targets.length > 1) {
+          logger.endGroup();
+        }
+      }
+    }
+
+    // Multi-user runs keep per-user cursors, the global one records the last complete run
+    if (!options.from && !run.budget.exhausted && targets.some((target) => target.userId)) {
+      this.stateManager.updateLastFetchTimestamp(to.toISOString());
+    }
+
+    return {
+      users: targets.length,
+      stats: run.stats,
+      publishedNotes: run.publishedNotes,
+      complete: run.stats.deferred === 0 && !run.budget.exhausted,
+    };
+  }
+
+  /**
+   * Regenerate one archived meeting's note, regardless of whether its summary changed.
+   * Hand-written content in an existing note is kept.
+   */
+  async reprocess(uuid: string, existingPath?: string): Promise<PublishedNote | null> {
+    const processed = this.stateManager.getProcessedRecording(uuid);
+    const filePath = existingPath ?? processed?.filePath;
+    const existing = filePath && fileExists(filePath) ? await readFile(filePath) : undefined;
+
+    const meeting = await this.zoomClient.getPastMeeting(uuid);
+    if (!meeting) {
+      throw new Error(`Meeting not found in Zoom: ${uuid}`);
+    }
+
+    // Past meeting details lack the timezone, reuse the one the note was written with
+    if (!meeting.timezone && existing) {
+      const { frontmatter } = parseMarkdown(existing);
+      meeting.timezone = typeof frontmatter.timezone === 'string' ? frontmatter.timezone : '';
+    }
+
+    const start = new Date(meeting.start_time);
+    const userId = processed?.userId;
+    const context: SyncContext = {
+      findRecording: this.createRecordingLookup(
+        new Date(start.getTime() - DAY_MS),
+        new Date(start.getTime() + DAY_MS),
+        userId
+      ),
+      outputDir: filePath ? path.dirname(filePath) : (await this.targetFor(userId)).outputDir,
+      userId,
+    };
+
+    logger.group(`Reprocessing: ${meeting.topic}`);
+
+    try {
+      // Never archived: write it like a new meeting
+      if (!filePath) {
+        const result = await this.processMeeting(meeting, context);
+        if (result.status !== 'archived') {
+          return null;
+        }
+        this.stateManager.addProcessedRecording(result.record);
+        this.queueIncomplete(meeting, userId, result);
+        return this.publishedNote(result.record.filePath, meeting);
+      }
+
+      const aiSummary = await this.zoomClient.getMeetingSummary(meeting.uuid);
+      const built = await this.buildMeetingNote(meeting, aiSummary, context);
+
+      if (!built) {
+        return null;
+      }
+
+      const meetingNote = built.note;
+      const markdown = this.renderNote(meetingNote, aiSummary, filePath);
+      await this.writeNote(
+        filePath,
+        existing ? mergeMarkdown(existing, markdown) : markdown,
+        'Regenerated'
+      );
+      await this.writeMeta(filePath, meetingNote, aiSummary, context);
+
+      const record: ProcessedRecording = {
+        ...processed,
+        uuid: meetingNote.metadata.uuid,
+        meetingId: meetingNote.metadata.meetingId,
+        filePath,
+        processedAt: new Date().toISOString(),
+        hash: createContentHash(markdown),
+        summaryModifiedAt: aiSummary?.summary_last_modified_time,
+      };
+
+      if (processed) {
+        this.stateManager.updateProcessedRecording(record);
+      } else {
+        this.stateManager.addProcessedRecording(record);
+      }
+      this.queueIncomplete(meeting, userId, {
+        hasSummary: aiSummary !== null,
+        mediaPending: built.mediaPending,
+      });
+
+      return this.publishedNote(filePath, meeting);
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Notes that would have been written so far, in dry-run mode
+   */
+  getPlannedChanges(): NoteChange[] {
+    return [...this.plannedChanges];
+  }
+
+  /**
+   * Work out which users to archive: the configured user, or an explicit list,
+   * a group's members and/or every active user in the account
+   */
+  async resolveTargets(): Promise<ArchiveTarget[]> {
+    const { userIds, groupId, allUsers } = this.config.users;
+    const baseDir = path.join(this.config.workspaceDir, this.config.outputDir);
+
+    if (userIds.length === 0 && !groupId && !allUsers) {
+      return [{ label: this.config.zoom.userId || 'me', outputDir: baseDir }];
+    }
+
+    const members: ZoomUser[] = [];
+
+    if (groupId) {
+      members.push(...(await this.zoomClient.listGroupMembers(groupId)));
+    }
+
+    if (allUsers) {
+      members.push(...(await this.zoomClient.listUsers()));
+    }
+
+    const targets: ArchiveTarget[] = [];
+    const seen = new Set<string>();
+
+    for (const member of members) {
+      if (!seen.has(member.id)) {
+        seen.add(member.id).add((member.email || member.id).toLowerCase());
+        targets.push({ userId: member.id, label: member.email || member.id, outputDir: baseDir });
+      }
+    }
+
+    // Explicit entries can be user IDs or emails, either may duplicate a resolved member
+    for (const userId of userIds) {
+      if (!seen.has(userId) && !seen.has(userId.toLowerCase())) {
+        seen.add(userId).add(userId.toLowerCase());
+        targets.push({ userId, label: userId, outputDir: baseDir });
+      }
+    }
+
+    // Each user gets their own subtree, named after the local part of their email
+    const dirNames = new Set<string>();
+    for (const target of targets) {
+      let dirName =
+        sanitizeTitle(target.label.split('@')[0]) || sanitizeTitle(target.userId!) || 'user';
+      if (dirNames.has(dirName)) {
+        dirName = `${dirName}-${extractShortUuid(target.userId!).toLowerCase()}`;
+      }
+      dirNames.add(dirName);
+      target.outputDir = path.join(baseDir, dirName);
+    }
+
+    logger.info(`Archiving meetings for ${targets.length} users`);
+    return targets;
+  }
+
+  /**
+   * The archive target a previously archived meeting belongs to
+   */
+  private async targetFor(userId?: string): Promise<ArchiveTarget> {
+    const targets = await this.resolveTargets();
+    return targets.find((target) => target.userId === userId) ?? targets[0];
+  }
+
+  /**
+   * Fetch and archive one user's meetings since their last cursor. If the run budget
+   * runs out, the cursor is left at the last meeting completed so the next run resumes there.
+   */
+  private async syncTarget(
+    target: ArchiveTarget,
+    window: { from?: Date; to: Date },
+    run: SyncRun
+  ): Promise<void> {
+    const { config, stateManager } = this;
+    const { stats, handledUuids, budget } = run;
+    const { to } = window;
+
+    // Calculate date range for fetching meetings
+    const lastFetch = window.from ?? new Date(stateManager.getLastFetchTimestamp(target.userId));
+
+    // In update mode, also re-check recently archived meetings for edited summaries
+    const updateSince = new Date(to.getTime() - config.updateLookbackDays * DAY_MS);
+    const from =
+      config.updateExisting && !window.from && updateSince < lastFetch ? updateSince : lastFetch;
+
+    logger.info('Fetching meetings', {
+      user: target.label,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+
+    // Fetch all meetings from Zoom using Reports API, oldest first so the cursor can follow progress
+    const allMeetings = (await this.zoomClient.listMeetings(from, to, target.userId)).sort((a, b) =>
+      a.start_time.localeCompare(b.start_time)
+    );
+
+    logger.info(`Found ${allMeetings.length} meetings`);
+    stats.total += allMeetings.length;
+
+    // Cloud recordings are fetched once, the first time a meeting needs its transcript
+    const context: SyncContext = {
+      findRecording: this.createRecordingLookup(from, to, target.userId),
+      outputDir: target.outputDir,
+      userId: target.userId,
+    };
+
+    const jobs: MeetingJob[] = [];
+    const now = new Date().toISOString();
+
+    for (const meeting of allMeetings) {
+      if (handledUuids.has(meeting.uuid)) {
+        logger.debug(`Skipping meeting already handled in this run: ${meeting.uuid}`);
+        stats.skipped++;
+        continue;
+      }
+
+      // Queued meetings are retried from the queue on its schedule, not whenever they are
+      // listed again (in update mode, or by an overlapping date range)
+      const queued = stateManager.getRetryEntry(meeting.uuid);
+      if (queued) {
+        if (!isDue(queued, now)) {
+          logger.debug(`Skipping queued meeting until its retry is due: ${meeting.uuid}`);
+          stats.skipped++;
+        }
+        continue;
+      }
+
+      // In update mode, recent meetings are re-checked for edited summaries
+      const recheck = config.updateExisting && new Date(meeting.start_time) >= updateSince;
+      handledUuids.add(meeting.uuid);
+
+      if (stateManager.isProcessed(meeting.uuid) && !recheck) {
+        logger.debug(`Skipping already processed meeting: ${meeting.uuid}`);
+        stats.skipped++;
+        continue;
+      }
+
+      jobs.push({ meeting, context, retry: false });
+    }
+
+    jobs.push(...this.dueRetries(target, handledUuids));
+
+    // Only listed meetings move the cursor, and never backwards
+    let cursor = lastFetch.toISOString();
+    let firstDeferred: MeetingJob | undefined;
+
+    // Meetings run concurrently; each one's log output and state save happen in list order
+    await runPool(
+      jobs,
+      config.concurrency,
+      (job) => {
+        if (!budget.take()) {
+          return Promise.resolve(null);
+        }
+
+        return logger.capture(() =>
+          job.retry
+            ? this.retryMeeting(job.meeting, job.context, stats)
+            : this.handleMeeting(job.meeting, job.context, stats)
+        );
+      },
+      async (outcome, index) => {
+        const job = jobs[index];
+
+        if (!outcome) {
+          firstDeferred ??= job;
+          stats.deferred++;
+          return;
+        }
+
+        logger.flush(outcome.output);
+
+        if (outcome.result) {
+          run.publishedNotes.push(outcome.result);
+        }
+
+        if (!window.from && !job.retry && !firstDeferred && job.meeting.start_time > cursor) {
+          cursor = job.meeting.start_time;
+          stateManager.updateLastFetchTimestamp(cursor, target.userId);
+        }
+
+        // Save progress after every meeting so a crash mid-run doesn't lose it
+        if (!config.dryRun) {
+          await stateManager.checkpoint();
+        }
+      }
+    );
+
+    if (firstDeferred) {
+      logger.warning(`Run budget reached, ${stats.deferred} meetings deferred to the next run`, {
+        maxRecordingsPerRun: config.maxRecordingsPerRun,
+        timeBudgetMinutes: config.timeBudgetMinutes,
+        resumeFrom: window.from ? firstDeferred.meeting.start_time : cursor,
+      });
+      return;
+    }
+
+    // Backfills fetch an explicit range and leave the cursor alone
+    if (!window.from) {
+      stateManager.updateLastFetchTimestamp(to.toISOString(), target.userId);
+    }
+  }
+
+  /**
+   * Archive a listed meeting, or in update mode re-check an archived one.
+   * Returns the note to publish, if one was written.
+   */
+  private async handleMeeting(
+    meeting: ZoomMeeting,
+    context: SyncContext,
+    stats: RunStats
+  ): Promise<PublishedNote | undefined> {
+    const { stateManager } = this;
+
+    // Check if already processed
+    const processed = stateManager.getProcessedRecording(meeting.uuid);
+
+    if (!processed) {
+      return this.archiveMeeting(meeting, context, stats);
+    }
+
+    logger.group(`Checking for updates: ${meeting.topic}`);
+
+    try {
+      const updated = await this.updateMeeting(meeting, processed, context);
+
+      if (!updated) {
+        return undefined;
+      }
+
+      stateManager.updateProcessedRecording(updated.record);
+      this.queueIncomplete(meeting, context.userId, updated, stats);
+
+      if (updated.record.hash === processed.hash) {
+        return undefined;
+      }
+
+      stats.updated++;
+      logger.info(`🔄 Updated: ${meeting.topic}`);
+      return this.publishedNote(updated.record.filePath, meeting);
+    } catch (error) {
+      stats.errors++;
+      logger.error(`Failed to update meeting: ${meeting.topic}`, error as Error);
+      return undefined;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Archive a meeting that has no note yet. Failures, and meetings whose content
+   * is not available yet, go to the retry queue.
+   */
+  private async archiveMeeting(
+    meeting: ZoomMeeting,
+    context: SyncContext,
+    stats: RunStats
+  ): Promise<PublishedNote | undefined> {
+    const { stateManager } = this;
+
+    logger.group(`Processing: ${meeting.topic}`);
+
+    try {
+      // Process the meeting
+      const result = await this.processMeeting(meeting, context);
+
+      if (result.status === 'archived') {
+        // Save to state
+        stateManager.addProcessedRecording(result.record);
+        stats.success++;
+        logger.info(`✅ Successfully processed: ${meeting.topic}`);
+
+        this.queueIncomplete(meeting, context.userId, result, stats);
+        return this.publishedNote(result.record.filePath, meeting);
+      }
+
+      stats.skipped++;
+
+      if (
+        result.status === 'no-content' &&
+        (mayStillGetContent(meeting) || stateManager.getRetryEntry(meeting.uuid))
+      ) {
+        this.scheduleRetry(
+          meeting,
+          context.userId,
+          'no-content',
+          'No AI summary or transcript available yet',
+          stats
+        );
+      } else {
+        stateManager.removeRetryEntry(meeting.uuid);
+      }
+      return undefined;
+    } catch (error) {
+      stats.errors++;
+      stateManager.recordFailure({
+        uuid: meeting.uuid,
+        topic: meeting.topic,
+        startTime: meeting.start_time,
+        error: (error as Error).message,
+        failedAt: new Date().toISOString(),
+        userId: context.userId,
+      });
+      logger.error(`Failed to process meeting: ${meeting.topic}`, error as Error);
+      this.scheduleRetry(meeting, context.userId, 'error', (error as Error).message, stats);
+      return undefined;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * The user's queued meetings that are due for a retry
+   */
+  private dueRetries(target: ArchiveTarget, handledUuids: Set<string>): MeetingJob[] {
+    const now = new Date().toISOString();
+    const due = this.stateManager
+      .getRetryQueue()
+      .filter((entry) => entry.userId === target.userId && isDue(entry, now))
+      .filter((entry) => !handledUuids.has(entry.meeting.uuid));
+
+    if (due.length > 0) {
+      logger.info(`Retrying ${due.length} queued meetings`);
+    }
+
+    return due.map(({ meeting }) => {
+      handledUuids.add(meeting.uuid);
+
+      // Queued meetings can be older than this run's date range
+      const start = new Date(meeting.start_time);
+      const context: SyncContext = {
+        findRecording: this.createRecordingLookup(
+          new Date(start.getTime() - DAY_MS),
+          new Date(start.getTime() + DAY_MS),
+          target.userId
+        ),
+        outputDir: target.outputDir,
+        userId: target.userId,
+      };
+
+      return { meeting, context, retry: true };
+    });
+  }
+
+  /**
+   * Retry a queued meeting
+   */
+  private async retryMeeting(
+    meeting: ZoomMeeting,
+    context: SyncContext,
+    stats: RunStats
+  ): Promise<PublishedNote | undefined> {
+    const processed = this.stateManager.getProcessedRecording(meeting.uuid);
+    const entry = this.stateManager.getRetryEntry(meeting.uuid);
+
+    if (processed && !isRecheck(entry)) {
+      this.stateManager.removeRetryEntry(meeting.uuid);
+      return undefined;
+    }
+
+    stats.retried++;
+    return processed && entry
+      ? this.recheckNote(meeting, processed, entry.reason, context, stats)
+      : this.archiveMeeting(meeting, context, stats);
+  }
+
+  /**
+   * Regenerate an incomplete note once what it was missing is available: the AI summary
+   * of a note archived from the transcript, or recording media that failed to copy.
+   */
+  private async recheckNote(
+    meeting: ZoomMeeting,
+    processed: ProcessedRecording,
+    reason: RetryEntry['reason'],
+    context: SyncContext,
+    stats: RunStats
+  ): Promise<PublishedNote | undefined> {
+    const { stateManager } = this;
+
+    logger.group(`Re-checking incomplete note: ${meeting.topic}`);
+
+    try {
+      // Regenerated even without a summary, so media that failed before is copied again
+      const updated = await this.updateMeeting(meeting, processed, context, true);
+
+      if (!updated) {
+        stateManager.removeRetryEntry(meeting.uuid);
+        return undefined;
+      }
+
+      stateManager.updateProcessedRecording(updated.record);
+      this.queueIncomplete(meeting, context.userId, updated, stats);
+
+      if (updated.record.hash === processed.hash) {
+        return undefined;
+      }
+
+      stats.updated++;
+      logger.info(`🔄 Updated: ${meeting.topic}`);
+      return this.publishedNote(updated.record.filePath, meeting);
+    } catch (error) {
+      stats.errors++;
+      logger.error(`Failed to re-check note: ${meeting.topic}`, error as Error);
+      this.scheduleRetry(meeting, context.userId, reason, (error as Error).message, stats);
+      return undefined;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Keep an archived meeting queued while its note is incomplete: its AI summary may still
+   * appear, or some recording media could not be copied. Otherwise drop it from the queue.
+   */
+  private queueIncomplete(
+    meeting: ZoomMeeting,
+    userId: string | undefined,
+    note: Pick<ArchivedNote, 'hasSummary' | 'mediaPending'>,
+    stats?: RunStats
+  ): void {
+    if (!note.hasSummary && mayStillGetContent(meeting)) {
+      this.scheduleRetry(meeting, userId, 'no-summary', 'AI summary not available yet', stats);
+    } else if (note.mediaPending) {
+      this.scheduleRetry(
+        meeting,
+        userId,
+        'media',
+        'Some recording media could not be archived',
+        stats
+      );
+    } else {
+      this.stateManager.removeRetryEntry(meeting.uuid);
+    }
+  }
+
+  /**
+   * Queue a meeting for another attempt, with exponential backoff, until attempts run out
+   */
+  private scheduleRetry(
+    meeting: ZoomMeeting,
+    userId: string | undefined,
+    reason: RetryEntry['reason'],
+    message: string,
+    stats?: RunStats
+  ): void {
+    const { maxAttempts, baseDelayMinutes } = this.config.retry;
+    const previous = this.stateManager.getRetryEntry(meeting.uuid);
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const now = new Date();
+
+    let nextRetryAt: string | undefined;
+    if (attempts < maxAttempts) {
+      const delayMinutes = Math.min(
+        baseDelayMinutes * 2 ** (attempts - 1),
+        MAX_RETRY_DELAY_MINUTES
+      );
+      nextRetryAt = new Date(now.getTime() + delayMinutes * 60 * 1000).toISOString();
+      if (stats) {
+        stats.queued++;
+      }
+      logger.info(`Queued for retry (attempt ${attempts}/${maxAttempts})`, {
+        uuid: meeting.uuid,
+        nextRetryAt,
+      });
+    } else {
+      logger.warning(`Giving up on meeting after ${attempts} attempts: ${meeting.topic}`, {
+        uuid: meeting.uuid,
+        lastError: message,
+      });
+    }
+
+    this.stateManager.setRetryEntry({
+      meeting,
+      userId,
+      reason,
+      attempts,
+      lastError: message,
+      firstQueuedAt: previous?.firstQueuedAt ?? now.toISOString(),
+      lastAttemptAt: now.toISOString(),
+      nextRetryAt,
+    });
+  }
+
+  /**
+   * Process a single meeting
+   */
+  private async processMeeting(meeting: ZoomMeeting, context: SyncContext): Promise<ProcessResult> {
+    const { config } = this;
+
+    // Try to fetch AI-generated summary
+    logger.info('Checking for AI-generated meeting summary...');
+    const aiSummary = await this.zoomClient.getMeetingSummary(meeting.uuid);
+
+    const built = await this.buildMeetingNote(meeting, aiSummary, context);
+
+    if (!built) {
+      return { status: 'no-content' };
+    }
+
+    const meetingNote = built.note;
+
+    // Determine file path (inside the user's output directory)
+    const notePath = resolveNotePath(config.pathPattern, meetingNote.metadata, context.outputDir);
+
+    // Generate Markdown. A collision suffix keeps the note in the same directory,
+    // so media links relative to notePath stay valid.
+    const markdown = this.renderNote(meetingNote, aiSummary, notePath);
+
+    // Handle an existing file at that path, and write to disk. Concurrent meetings
+    // must not both claim the same free path.
+    const filePath = await this.withPathLock(async () => {
+      const { uuid } = meetingNote.metadata;
+      const resolved = await resolveCollision(
+        notePath,
+        uuid,
+        config.onCollision,
+        this.plannedNotes
+      );
+      if (resolved) {
+        await this.writeNote(resolved, markdown, 'Saved');
+        if (config.dryRun) {
+          // Nothing was written, so later meetings must see the path as taken
+          this.plannedNotes.set(resolved, uuid);
+        }
+      }
+      return resolved;
+    });
+
+    if (!filePath) {
+      return { status: 'skipped' };
+    }
+
+    await this.writeMeta(filePath, meetingNote, aiSummary, context);
+
+    // Return processed meeting info
+    return {
+      status: 'archived',
+      hasSummary: aiSummary !== null,
+      mediaPending: built.mediaPending,
+      record: {
+        uuid: meetingNote.metadata.uuid,
+        meetingId: meetingNote.metadata.meetingId,
+        processedAt: new Date().toISOString(),
+        filePath,
+        hash: createContentHash(markdown),
+        userId: context.userId,
+        summaryModifiedAt: aiSummary?.summary_last_modified_time,
+      },
+    };
+  }
+
+  /**
+   * Regenerate an archived meeting's note in place if its AI summary was edited, or
+   * unconditionally with force (e.g. to add media that failed to copy before).
+   * Returns the refreshed state record, or null if there is nothing to update.
+   */
+  private async updateMeeting(
+    meeting: ZoomMeeting,
+    processed: ProcessedRecording,
+    context: SyncContext,
+    force = false
+  ): Promise<ArchivedNote | null> {
+    const aiSummary = await this.zoomClient.getMeetingSummary(meeting.uuid);
+    const modifiedAt = aiSummary?.summary_last_modified_time;
+
+    // Transcripts are not edited after the fact, only AI summaries are
+    if (!aiSummary && !force) {
+      logger.debug('No AI summary to update from', { uuid: meeting.uuid });
+      return null;
+    }
+
+    if (
+      !force &&
+      processed.summaryModifiedAt &&
+      modifiedAt &&
+      modifiedAt <= processed.summaryModifiedAt
+    ) {
+      logger.debug('Summary unchanged since last run', { uuid: meeting.uuid, modifiedAt });
+      return null;
+    }
+
+    const built = await this.buildMeetingNote(meeting, aiSummary, context);
+
+    if (!built) {
+      return null;
+    }
+
+    const { note: meetingNote, mediaPending } = built;
+    const hasSummary = aiSummary !== null;
+    const markdown = this.renderNote(meetingNote, aiSummary, processed.filePath);
+    const hash = createContentHash(markdown);
+
+    if (hash === processed.hash) {
+      logger.debug('Regenerated note is identical, nothing to update', { uuid: meeting.uuid });
+      return { record: { ...processed, summaryModifiedAt: modifiedAt }, hasSummary, mediaPending };
+    }
+
+    // Keep anything users added to the existing note
+    const filePath = processed.filePath;
+    const content = fileExists(filePath)
+      ? mergeMarkdown(await readFile(filePath), markdown)
+      : markdown;
+
+    await this.writeNote(filePath, content, 'Updated');
+    await this.writeMeta(filePath, meetingNote, aiSummary, context);
+
+    return {
+      record: {
+        ...processed,
+        processedAt: new Date().toISOString(),
+        hash,
+        summaryModifiedAt: modifiedAt,
+      },
+      hasSummary,
+      mediaPending,
+    };
+  }
+
+  /**
+   * Write the companion .meta.json next to a note, if enabled
+   */
+  private async writeMeta(
+    notePath: string,
+    meetingNote: MeetingNote,
+    aiSummary: ZoomMeetingSummary | null,
+    context: SyncContext
+  ): Promise<void> {
+    if (!this.config.writeMetaFile) {
+      return;
+    }
+
+    const recording = await context.findRecording(meetingNote.metadata.uuid);
+    const content = generateMeta(meetingNote, recording, aiSummary ?? undefined);
+    await this.writeNote(metaFilePath(notePath), content, 'Saved', 'metadata file');
+  }
+
+  /**
+   * A written note, with its companion metadata file, for publishing
+   */
+  private publishedNote(filePath: string, meeting: ZoomMeeting): PublishedNote {
+    return {
+      filePath,
+      metaFilePath: this.config.writeMetaFile ? metaFilePath(filePath) : undefined,
+      title: meeting.topic,
+      startTime: meeting.start_time,
+      timezone: resolveTimezone(this.config.displayTimezone, meeting.timezone),
+    };
+  }
+
+  /**
+   * Write a note (or its metadata file) to disk, or in dry-run mode record what would change
+   */
+  private async writeNote(
+    filePath: string,
+    content: string,
+    verb: string,
+    kind = 'markdown file'
+  ): Promise<void> {
+    if (!this.config.dryRun) {
+      await writeFile(filePath, content);
+      logger.info(`📝 ${verb} ${kind}: ${filePath}`);
+      return;
+    }
+
+    const existing = fileExists(filePath) ? await readFile(filePath) : '';
+    if (existing === content) {
+      logger.info(`🔍 Dry run: ${filePath} is unchanged`);
+      return;
+    }
+
+    const relativePath = path.relative(this.config.workspaceDir, filePath);
+    this.plannedChanges.push({
+      filePath,
+      action: existing ? 'update' : 'create',
+      diff: createUnifiedDiff(relativePath, existing, content),
+    });
+    logger.info(`🔍 Dry run: would ${existing ? 'update' : 'create'} ${filePath}`);
+  }
+
+  /**
+   * Render a note with the configured template
+   */
+  private renderNote(
+    meetingNote: MeetingNote,
+    aiSummary: ZoomMeetingSummary | null,
+    notePath: string
+  ): string {
+    return generateMarkdown(meetingNote, {
+      template: this.template,
+      zoomSummary: aiSummary ?? undefined,
+      transcript: this.config.transcript,
+      notePath,
+    });
+  }
+
+  /**
+   * Build the meeting note from the AI summary and/or the cloud recording transcript.
+   * mediaPending is set when some recording media could not be copied this time.
+   */
+  private async buildMeetingNote(
+    meeting: ZoomMeeting,
+    aiSummary: ZoomMeetingSummary | null,
+    context: SyncContext
+  ): Promise<{ note: MeetingNote; mediaPending: boolean } | null> {
+    const { zoomClient, config } = this;
+
+    // Fetched first, so attendees' names are recognized as transcript speakers
+    const participantSessions = await zoomClient.getMeetingParticipants(meeting.uuid);
+
+    logger.info('Checking for a cloud recording transcript...');
+    const recordingTranscript = await this.loadRecordingTranscript(meeting, context, [
+      ...participantSessions.map((session) => session.name),
+      ...(this.speakerAliases?.keys() ?? []),
+    ]);
+
+    let meetingNote: MeetingNote;
+
+    if (aiSummary && recordingTranscript) {
+      logger.info('✅ AI summary and transcript found! Merging into one note');
+      meetingNote = mergeTranscriptIntoNote(
+        convertZoomSummaryToMeetingNote(aiSummary),
+        recordingTranscript.recording,
+        recordingTranscript.transcript
+      );
+    } else if (aiSummary) {
+      logger.info('✅ AI summary found! Using Zoom AI Companion summary');
+
+      // Convert AI summary to meeting note
+      meetingNote = convertZoomSummaryToMeetingNote(aiSummary);
+    } else if (recordingTranscript) {
+      logger.info('✅ Transcript found! Using cloud recording transcript');
+      meetingNote = convertRecordingToMeetingNote(
+        recordingTranscript.recording,
+        recordingTranscript.transcript,
+        { enableActionItemExtraction: config.enableActionItemExtraction }
+      );
+    } else {
+      logger.info('No AI summary or transcript available for this meeting, skipping');
+      return null;
+    }
+
+    // Display times and bucket folders in the configured zone, or the meeting's own
+    meetingNote = {
+      ...meetingNote,
+      metadata: {
+        ...meetingNote.metadata,
+        timezone: resolveTimezone(config.displayTimezone, meeting.timezone),
+      },
+    };
+
+    if (config.archiveChat) {
+      const chat = await this.loadRecordingChat(meeting, context);
+      if (chat) {
+        logger.info(`Found ${chat.messages.length} chat messages`);
+        meetingNote = { ...meetingNote, chat };
+      }
+    }
+
+    // Copy the recording's media to the media store and link it from the note. Files that
+    // fail are left out of the note, which must not wait for them.
+    let mediaPending = false;
+    const recording = this.mediaArchiver && (await context.findRecording(meeting.uuid));
+    if (this.mediaArchiver && recording) {
+      const { media, failed } = await this.mediaArchiver.archive(recording, meetingNote.metadata);
+      if (media.length > 0) {
+        meetingNote = { ...meetingNote, media };
+      }
+      mediaPending = failed > 0;
+    }
+
+    // Replace the host-only participant list with the attendance report
+    if (participantSessions.length > 0) {
+      const attendance = dedupeParticipants(participantSessions);
+      logger.info(`Found ${attendance.length} participants`);
+      meetingNote = applyAttendance(meetingNote, attendance);
+    }
+
+    // Show everyone under one canonical name, whatever device or account they joined with
+    if (this.speakerAliases) {
+      meetingNote = applySpeakerAliases(meetingNote, this.speakerAliases);
+    }
+
+    return { note: meetingNote, mediaPending };
+  }
+
+  /**
+   * Download and parse the meeting's cloud recording transcript, if it has one
+   */
+  private async loadRecordingTranscript(
+    meeting: ZoomMeeting,
+    context: SyncContext,
+    knownSpeakers: string[]
+  ): Promise<{ recording: ZoomRecording; transcript: ParsedTranscript } | null> {
+    const recording = await context.findRecording(meeting.uuid);
+    const transcriptFile = recording && findTranscriptFile(recording);
+
+    if (!recording || !transcriptFile) {
+      return null;
+    }
+
+    const content = await this.zoomClient.downloadFile(transcriptFile.download_url);
+    const transcript = parseTranscript(content, transcriptFile.file_extension, knownSpeakers);
+
+    if (transcript.segments.length === 0) {
+      logger.warning('Transcript is empty, ignoring', { uuid: meeting.uuid });
+      return null;
+    }
+
+    return { recording, transcript };
+  }
+
+  /**
+   * Download and parse the in-meeting chat of the meeting's cloud recording, if it has one
+   */
+  private async loadRecordingChat(
+    meeting: ZoomMeeting,
+    context: SyncContext
+  ): Promise<ParsedChat | null> {
+    const recording = await context.findRecording(meeting.uuid);
+    const chatFile = recording && findChatFile(recording);
+
+    if (!chatFile) {
+      return null;
+    }
+
+    const chat = parseChat(await this.zoomClient.downloadFile(chatFile.download_url));
+    return chat.messages.length > 0 ? chat : null;
+  }
+
+  /**
+   * Create a lookup of cloud recordings, keyed by meeting UUID.
+   * Recordings are fetched once, on first use, for the whole date range.
+   */
+  private createRecordingLookup(from: Date, to: Date, userId?: string): RecordingLookup {
+    const { zoomClient } = this;
+    let recordings: Promise<Map<string, ZoomRecording>> | null = null;
+
+    const fetchRecordings = async (): Promise<Map<string, ZoomRecording>> => {
+      try {
+        const all = await zoomClient.listRecordings(from, to, userId);
+        const withTranscripts = zoomClient.filterRecordingsWithTranscripts(all);
+        logger.info(
+          `Found ${all.length} cloud recordings, ${withTranscripts.length} with transcripts`
+        );
+        // Recordings without a transcript may still have a chat
+        return new Map(all.map((recording) => [recording.uuid, recording]));
+      } catch (error) {
+        // Missing recording scopes should not fail meetings that have AI summaries
+        logger.warning('Cloud recordings unavailable, transcript fallback disabled for this run', {
+          error: (error as Error).message,
+        });
+        return new Map();
+      }
+    };
+
+    return async (uuid) => {
+      // Shared by every meeting, so its log lines don't belong to the one that asked first
+      recordings ??= logger.uncaptured(fetchRecordings);
+      return (await recordings).get(uuid);
+    };
+  }
+}
+
+/**
+ * Whether a queued meeting's next retry is due. Entries that gave up never are.
+ */
+function isDue(entry: RetryEntry, now: string): boolean {
+  return entry.nextRetryAt !== undefined && entry.nextRetryAt <= now;
+}
+
+/**
+ * Whether a queued meeting already has a note that is re-checked until it is complete
+ */
+function isRecheck(entry: RetryEntry | undefined): boolean {
+  return entry?.reason === 'no-summary' || entry?.reason === 'media';
+}
+
+/**
+ * Whether a meeting ended recently enough that Zoom may still generate its summary or transcript
+ */
+function mayStillGetContent(meeting: ZoomMeeting): boolean {
+  const endedAt = new Date(meeting.start_time).getTime() + meeting.duration * 60 * 1000;
+  return Date.now() - endedAt < PENDING_CONTENT_WINDOW_MS;
+}
+
+/**
+ * Create content hash for duplicate detection
+ */
+function createContentHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
@@ -0,0 +1,179 @@
+/**
+ * Git publisher for committing and pushing generated meeting notes
+ */
+
+import path from 'path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+import { logger } from '../utils/logger.js';
+import { formatInTimezone } from '../utils/timezone.js';
+import type { GitPublishConfig } from '../types/index.js';
+
+export interface PublishedNote {
+  filePath: string;
+  metaFilePath?: string; // Companion .meta.json, when enabled
+  title: string;
+  startTime: string;
+  timezone: string; // Zone the note shows its times in
+}
+
+export interface PublishResult {
+  committed: boolean;
+  pushed: boolean;
+  commitHash?: string;
+}
+
+export class GitPublisher {
+  private git: SimpleGit;
+  private workspaceDir: string;
+  private config: GitPublishConfig;
+
+  constructor(workspaceDir: string, config: GitPublishConfig) {
+    this.workspaceDir = workspaceDir;
+    this.config = config;
+    this.git = simpleGit(workspaceDir).env({
+      ...process.env,
+      GIT_AUTHOR_NAME: config.authorName,
+      GIT_AUTHOR_EMAIL: config.authorEmail,
+      GIT_COMMITTER_NAME: config.authorName,
+      GIT_COMMITTER_EMAIL: config.authorEmail,
+    });
+  }
+
+  /**
+   * Stage the notes written in this run (plus extra files such as the state file),
+   * commit them in a single commit and optionally push
+   */
+  async publish(notes: PublishedNote[], extraPaths: string[] = []): Promise<PublishResult> {
+    logger.group('Publishing meeting notes to git');
+
+    try {
+      const paths = await this.stage([
+        ...notes.flatMap((note) => [
+          note.filePath,
+          ...(note.metaFilePath ? [note.metaFilePath] : []),
+        ]),
+        ...extraPaths,
+      ]);
+
+      if (paths.length === 0) {
+        logger.info('No changes to commit');
+        return { committed: false, pushed: false };
+      }
+
+      const result = await this.git.commit(createCommitMessage(notes), paths);
+      logger.info(`Committed ${paths.length} files`, { commit: result.commit });
+
+      if (!this.config.push) {
+        return { committed: true, pushed: false, commitHash: result.commit };
+      }
+
+      await this.pushWithRetry();
+      return { committed: true, pushed: true, commitHash: result.commit };
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Stage paths and return the ones that actually have staged changes
+   */
+  private async stage(filePaths: string[]): Promise<string[]> {
+    const relativePaths = [...new Set(filePaths)]
+      .map((filePath) =>
+        path.relative(this.workspaceDir, path.resolve(this.workspaceDir, filePath))
+      )
+      .filter((filePath) => filePath && !filePath.startsWith('..'));
+
+    if (relativePaths.length === 0) {
+      return [];
+    }
+
+    // Respect the repository's .gitignore (e.g. a repo that chooses not to track .state.json)
+    const ignored = new Set(await this.git.checkIgnore(relativePaths));
+    const trackable = relativePaths.filter((filePath) => !ignored.has(filePath));
+
+    if (trackable.length === 0) {
+      return [];
+    }
+
+    await this.git.add(trackable);
+
+    const staged = await this.git.diff(['--cached', '--name-only', '--', ...trackable]);
+    return staged.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Push to the configured remote, rebasing onto the remote branch when another run won the race
+   */
+  private async pushWithRetry(): Promise<void> {
+    const { remote, maxPushAttempts } = this.config;
+    const branch = this.config.branch || (await this.git.revparse(['--abbrev-ref', 'HEAD']));
+
+    for (let attempt = 1; attempt <= maxPushAttempts; attempt++) {
+      try {
+        await this.git.push(remote, `HEAD:${branch}`);
+        logger.info(`Pushed to ${remote}/${branch}`);
+        return;
+      } catch (error) {
+        if (attempt === maxPushAttempts) {
+          logger.error(
+            `Push to ${remote}/${branch} failed after ${attempt} attempts`,
+            error as Error
+          );
+          throw error;
+        }
+
+        logger.warning(
+          `Push rejected (attempt ${attempt}/${maxPushAttempts}), rebasing and retrying`,
+          {
+            error: (error as Error).message,
+          }
+        );
+
+        await this.rebaseOnto(remote, branch);
+        await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      }
+    }
+  }
+
+  /**
+   * Rebase local commits onto the remote branch, aborting cleanly on conflicts.
+   * Conflicting hunks (typically the state file) resolve in favour of this run's commit.
+   */
+  private async rebaseOnto(remote: string, branch: string): Promise<void> {
+    try {
+      await this.git.pull(remote, branch, { '--rebase': null, '--strategy-option': 'theirs' });
+    } catch (error) {
+      await this.git.rebase(['--abort']).catch(() => undefined);
+      throw new Error(`Failed to rebase onto ${remote}/${branch}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Create commit message listing the meetings added in this run. Times are shown as in the
+ * notes, not in the runner's timezone; the run date uses the newest note's timezone.
+ */
+export function createCommitMessage(notes: PublishedNote[], date = new Date()): string {
+  if (notes.length === 0) {
+    return 'chore: update meeting notes state';
+  }
+
+  const sorted = [...notes].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+  const runDate = formatInTimezone(
+    date.toISOString(),
+    'yyyy-MM-dd',
+    sorted[sorted.length - 1].timezone
+  );
+  const plural = notes.length === 1 ? 'meeting' : 'meetings';
+  const subject = `chore: add meeting notes for ${runDate} (${notes.length} ${plural})`;
+
+  const lines = sorted.map(
+    (note) =>
+      `- ${formatInTimezone(note.startTime, 'yyyy-MM-dd HH:mm', note.timezone)} ${note.title}`
+  );
+
+  return [subject, '', ...lines].join('\n');
+}
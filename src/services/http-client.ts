@@ -0,0 +1,167 @@
+/**
+ * Shared HTTP layer for Zoom API calls: OAuth, rate limiting, and retries
+ * with exponential backoff that respects Retry-After
+ */
+
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/async.js';
+import { ZoomAuthClient } from './zoom-auth.js';
+import { RateLimiter, categorizeEndpoint } from './rate-limiter.js';
+import type { HttpConfig, RateLimitCategory } from '../types/index.js';
+
+export interface ZoomRequestConfig extends AxiosRequestConfig {
+  category?: RateLimitCategory; // Defaults to the category of the endpoint
+}
+
+// Network error codes worth retrying
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_NETWORK',
+]);
+
+export class ZoomHttpClient {
+  private authClient: ZoomAuthClient;
+  private axiosInstance: AxiosInstance;
+  private rateLimiter: RateLimiter;
+  private config: HttpConfig;
+
+  constructor(authClient: ZoomAuthClient, config: HttpConfig, baseURL = 'https://api.zoom.us/v2') {
+    this.authClient = authClient;
+    this.config = config;
+    this.rateLimiter = new RateLimiter(config.rateLimits);
+
+    this.axiosInstance = axios.create({
+      baseURL,
+      timeout: config.timeoutMs,
+    });
+  }
+
+  /**
+   * Send a GET request
+   */
+  async get<T>(url: string, config: ZoomRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'GET', url });
+  }
+
+  /**
+   * Send a request, retrying rate-limited (429), server (5xx) and network errors.
+   * A 401 refreshes the OAuth token once without counting as an attempt.
+   */
+  async request<T>(config: ZoomRequestConfig): Promise<AxiosResponse<T>> {
+    const { category: requestedCategory, ...axiosConfig } = config;
+    const url = axiosConfig.url || '';
+    const category = requestedCategory || categorizeEndpoint(url);
+    const { maxAttempts } = this.config;
+
+    let tokenRefreshed = false;
+    let attempt = 1;
+
+    for (;;) {
+      await this.rateLimiter.acquire(category);
+
+      try {
+        const token = await this.authClient.getAccessToken();
+        return await this.axiosInstance.request<T>({
+          ...axiosConfig,
+          headers: { ...axiosConfig.headers, Authorization: `Bearer ${token}` },
+        });
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        if (error.response?.status === 401 && !tokenRefreshed) {
+          tokenRefreshed = true;
+          this.authClient.clearCache();
+          logger.debug('Access token rejected, refreshing and retrying', { url });
+          continue;
+        }
+
+        if (!isRetryable(error) || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+
+        if (retryAfterMs !== undefined && retryAfterMs > this.config.maxDelayMs) {
+          logger.warning('Retry-After exceeds maximum retry delay, giving up', {
+            url,
+            retryAfterMs,
+            maxDelayMs: this.config.maxDelayMs,
+          });
+          throw error;
+        }
+
+        const delayMs = retryAfterMs ?? this.backoffDelay(attempt);
+
+        if (error.response?.status === 429) {
+          // Hold back every request in this category, not just this one
+          this.rateLimiter.pause(category, delayMs);
+        }
+
+        logger.warning(
+          `Request failed, retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`,
+          {
+            url,
+            status: error.response?.status,
+            code: error.code,
+            category,
+          }
+        );
+
+        await sleep(delayMs);
+        attempt++;
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt - 1), capped at maxDelayMs
+   */
+  private backoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.config;
+    const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    const spread = exponential * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(exponential + spread));
+  }
+}
+
+/**
+ * Whether a failed request is worth retrying
+ */
+function isRetryable(error: AxiosError): boolean {
+  const status = error.response?.status;
+
+  if (status === undefined) {
+    return error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code);
+  }
+
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
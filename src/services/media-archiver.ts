@@ -0,0 +1,234 @@
+/**
+ * Copies recording media (MP4/M4A) from Zoom to the media store, so it is kept
+ * beyond Zoom's cloud recording retention. Downloads are streamed to a staging
+ * file, resumed after interruptions, and verified before they are stored.
+ */
+
+import fs from 'fs/promises';
+import { createWriteStream, existsSync } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { Transform } from 'stream';
+import { ZoomApiClient } from './zoom-api.js';
+import { hashFile, type MediaStorage } from './media-storage/index.js';
+import { ensureDirectory } from '../utils/filesystem.js';
+import { resolveNotePath } from '../utils/note-path.js';
+import { logger } from '../utils/logger.js';
+import type {
+  ArchivedMedia,
+  Config,
+  MeetingMetadata,
+  RecordingFile,
+  ZoomRecording,
+} from '../types/index.js';
+
+// Virtual root for turning the note path pattern into storage keys
+const KEY_ROOT = '/media';
+
+/**
+ * Thrown when a server sends more than the size limit; retrying would not help
+ */
+class MediaTooLargeError extends Error {}
+
+/**
+ * Media stored for a recording, and how many files could not be stored this time
+ */
+export interface MediaArchiveResult {
+  media: ArchivedMedia[];
+  failed: number;
+}
+
+export class MediaArchiver {
+  private zoomClient: ZoomApiClient;
+  private storage: MediaStorage;
+  private config: Config;
+
+  constructor(zoomClient: ZoomApiClient, storage: MediaStorage, config: Config) {
+    this.zoomClient = zoomClient;
+    this.storage = storage;
+    this.config = config;
+  }
+
+  /**
+   * Store the recording's media files, skipping ones already stored, and list them for the note.
+   * A file that fails is left out and counted, so it can be retried on a later run.
+   * In dry-run mode nothing is downloaded and only files stored earlier are listed.
+   */
+  async archive(recording: ZoomRecording, metadata: MeetingMetadata): Promise<MediaArchiveResult> {
+    const { fileTypes, maxFileSizeMb } = this.config.media;
+    const keyPrefix = this.keyPrefix(metadata);
+    const archived: ArchivedMedia[] = [];
+    let failed = 0;
+
+    const files = recording.recording_files.filter(
+      (file) => fileTypes.includes(file.file_type) && file.status === 'completed'
+    );
+
+    for (const file of files) {
+      if (file.file_size > maxFileSizeMb * 1024 * 1024) {
+        logger.warning(`Recording file exceeds MEDIA_MAX_FILE_SIZE_MB, not archiving it`, {
+          fileId: file.id,
+          size: file.file_size,
+          maxFileSizeMb,
+        });
+        continue;
+      }
+
+      const fileName = mediaFileName(file);
+      const key = `${keyPrefix}/${fileName}`;
+
+      try {
+        const stored = await this.storage.stat(key);
+        let sha256: string;
+
+        if (stored?.sha256 && (!file.file_size || stored.size === file.file_size)) {
+          logger.debug('Recording file already archived', { key });
+          sha256 = stored.sha256;
+        } else if (this.config.dryRun) {
+          logger.info(`🔍 Dry run: would archive ${fileName} (${file.file_size} bytes)`);
+          continue;
+        } else {
+          sha256 = await this.store(file, key);
+        }
+
+        archived.push({
+          fileName,
+          fileType: file.file_type,
+          recordingType: file.recording_type,
+          size: file.file_size || stored?.size || 0,
+          sha256,
+          location: this.storage.locate(key),
+        });
+      } catch (error) {
+        if (error instanceof MediaTooLargeError) {
+          logger.warning(`${error.message}, not archiving it`, { key, maxFileSizeMb });
+          continue;
+        }
+
+        failed++;
+        logger.warning('Failed to archive recording file, will retry on a later run', {
+          key,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return { media: archived, failed };
+  }
+
+  /**
+   * Download a file to staging, verify it and move it to the store. Returns its checksum.
+   */
+  private async store(file: RecordingFile, key: string): Promise<string> {
+    await ensureDirectory(this.storage.stagingDir);
+    const stagingPath = path.join(this.storage.stagingDir, `${sanitizeId(file.id)}.part`);
+
+    await this.download(file, stagingPath);
+
+    const { size } = await fs.stat(stagingPath);
+    if (file.file_size && size !== file.file_size) {
+      // Start from scratch next time rather than resuming a file that is already wrong
+      await fs.rm(stagingPath, { force: true });
+      throw new Error(`Downloaded ${size} bytes of ${key}, expected ${file.file_size}`);
+    }
+
+    const sha256 = await hashFile(stagingPath);
+    await this.storage.put(key, stagingPath, { size, sha256 });
+    logger.info(`🎞️ Archived ${key} (${size} bytes)`, { location: this.storage.location });
+
+    return sha256;
+  }
+
+  /**
+   * Stream a file into the staging path, resuming from whatever is already there.
+   * Interrupted transfers are resumed up to HTTP_MAX_ATTEMPTS times.
+   */
+  private async download(file: RecordingFile, stagingPath: string): Promise<void> {
+    const { maxAttempts } = this.config.http;
+
+    for (let attempt = 1; ; attempt++) {
+      const offset = existsSync(stagingPath) ? (await fs.stat(stagingPath)).size : 0;
+
+      if (file.file_size && offset >= file.file_size) {
+        return;
+      }
+
+      try {
+        const { stream, resumed } = await this.zoomClient.downloadStream(file.download_url, offset);
+
+        if (offset > 0) {
+          logger.info(
+            resumed
+              ? `Resuming download at ${offset} of ${file.file_size} bytes`
+              : 'Server does not support resuming, downloading from the start',
+            { fileId: file.id }
+          );
+        }
+
+        const limit = this.config.media.maxFileSizeMb * 1024 * 1024;
+        await pipeline(
+          stream,
+          limitSize(limit - (resumed ? offset : 0)),
+          createWriteStream(stagingPath, { flags: resumed ? 'a' : 'w' })
+        );
+        return;
+      } catch (error) {
+        if (error instanceof MediaTooLargeError) {
+          await fs.rm(stagingPath, { force: true });
+          throw error;
+        }
+        if (attempt >= maxAttempts) {
+          throw error;
+        }
+        logger.warning(`Download interrupted, resuming (attempt ${attempt}/${maxAttempts})`, {
+          fileId: file.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Storage key prefix for a meeting: the note path pattern without its extension,
+   * so media is laid out like the notes
+   */
+  private keyPrefix(metadata: MeetingMetadata): string {
+    const notePath = resolveNotePath(this.config.pathPattern, metadata, KEY_ROOT);
+    const relative = path.relative(KEY_ROOT, notePath);
+
+    return relative
+      .slice(0, relative.length - path.extname(relative).length)
+      .split(path.sep)
+      .join('/');
+  }
+}
+
+/**
+ * File name for a recording file: "shared_screen_with_speaker_view-1a2b3c4d.mp4"
+ */
+function mediaFileName(file: RecordingFile): string {
+  const kind = (file.recording_type || file.file_type).toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+  return `${kind}-${sanitizeId(file.id).slice(0, 8)}.${file.file_extension.toLowerCase()}`;
+}
+
+function sanitizeId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, '');
+}
+
+/**
+ * Fail the transfer if a server sends more than the size limit
+ */
+function limitSize(maxBytes: number): Transform {
+  let received = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        callback(new MediaTooLargeError('Download exceeds MEDIA_MAX_FILE_SIZE_MB'));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
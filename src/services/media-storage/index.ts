@@ -0,0 +1,33 @@
+/**
+ * Storage backends for recording media, selected with MEDIA_BACKEND
+ */
+
+import path from 'path';
+import { LocalMediaStorage } from './local-storage.js';
+import { S3MediaStorage } from './s3-storage.js';
+import type { Config } from '../../types/index.js';
+import type { MediaStorage } from './storage.js';
+
+export { hashFile, type MediaStorage, type StoredMedia } from './storage.js';
+
+/**
+ * Create the media storage backend selected in config
+ */
+export function createMediaStorage(config: Config): MediaStorage {
+  const { media } = config;
+
+  switch (media.backend) {
+    case 's3': {
+      const { bucket, accessKeyId, secretAccessKey } = media.s3;
+
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error(
+          'MEDIA_BACKEND=s3 requires MEDIA_S3_BUCKET, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY'
+        );
+      }
+      return new S3MediaStorage({ ...media.s3, bucket, accessKeyId, secretAccessKey });
+    }
+    case 'local':
+      return new LocalMediaStorage(path.resolve(config.workspaceDir, media.path));
+  }
+}
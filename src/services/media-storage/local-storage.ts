@@ -0,0 +1,68 @@
+/**
+ * Media in a local directory, for self-hosted runners with a persistent or mounted disk.
+ * Each file has a .sha256 sidecar so later runs can verify it without re-hashing.
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { ensureDirectory } from '../../utils/filesystem.js';
+import { hashFile, type MediaStorage, type StoredMedia } from './storage.js';
+
+export class LocalMediaStorage implements MediaStorage {
+  readonly location: string;
+  readonly stagingDir: string;
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+    this.location = rootDir;
+    // Inside the media directory, so completed downloads are moved rather than copied
+    this.stagingDir = path.join(rootDir, '.downloads');
+  }
+
+  async stat(key: string): Promise<StoredMedia | undefined> {
+    const filePath = this.locate(key);
+
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+
+    const { size } = await fs.stat(filePath);
+    const checksumPath = `${filePath}.sha256`;
+    const sha256 = existsSync(checksumPath)
+      ? (await fs.readFile(checksumPath, 'utf-8')).trim()
+      : undefined;
+
+    return { size, sha256 };
+  }
+
+  async put(key: string, filePath: string, media: Required<StoredMedia>): Promise<void> {
+    const target = this.locate(key);
+    await ensureDirectory(path.dirname(target));
+
+    try {
+      await fs.rename(filePath, target);
+    } catch (error) {
+      // The staging directory may be on another filesystem (e.g. a mounted media volume)
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.copyFile(filePath, `${target}.tmp`);
+      await fs.rename(`${target}.tmp`, target);
+      await fs.rm(filePath, { force: true });
+    }
+
+    const stored = await hashFile(target);
+    if (stored !== media.sha256) {
+      await fs.rm(target, { force: true });
+      throw new Error(`Checksum mismatch after storing ${target}`);
+    }
+
+    await fs.writeFile(`${target}.sha256`, `${media.sha256}\n`, 'utf-8');
+  }
+
+  locate(key: string): string {
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Media in an S3-compatible bucket (AWS S3, MinIO, R2, ...), uploaded with signed
+ * requests over path-style URLs. The payload checksum is part of the signature,
+ * so the store rejects an upload whose body does not match it.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { EMPTY_PAYLOAD_HASH, encodeKey, signRequest, type SigningCredentials } from './sigv4.js';
+import type { MediaStorage, StoredMedia } from './storage.js';
+import type { S3Config } from '../../types/index.js';
+
+// Object metadata holding the file's checksum, for later runs
+const CHECKSUM_HEADER = 'x-amz-meta-sha256';
+
+export class S3MediaStorage implements MediaStorage {
+  readonly location: string;
+  readonly stagingDir: string;
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+  private prefix: string;
+  private publicUrl?: string;
+  private credentials: SigningCredentials;
+
+  constructor(config: S3Config & { bucket: string; accessKeyId: string; secretAccessKey: string }) {
+    this.bucket = config.bucket;
+    this.region = config.region;
+    this.prefix = config.prefix;
+    this.endpoint = (config.endpoint || `https://s3.${config.region}.amazonaws.com`).replace(
+      /\/+$/,
+      ''
+    );
+    this.publicUrl = config.publicUrl?.replace(/\/+$/, '');
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      sessionToken: config.sessionToken,
+    };
+    this.location = `s3://${config.bucket}/${config.prefix}`;
+    // Fixed path so a runner that is reused can resume an interrupted download
+    this.stagingDir = path.join(os.tmpdir(), 'zoom-notes-media');
+  }
+
+  async stat(key: string): Promise<StoredMedia | undefined> {
+    const response = await this.send('HEAD', key, {}, EMPTY_PAYLOAD_HASH);
+
+    if (response.status === 404) {
+      return undefined;
+    }
+    this.assertOk(response.status, 'HEAD', key);
+
+    const checksum = response.headers[CHECKSUM_HEADER];
+    return {
+      size: Number(response.headers['content-length']),
+      sha256: typeof checksum === 'string' ? checksum : undefined,
+    };
+  }
+
+  async put(key: string, filePath: string, media: Required<StoredMedia>): Promise<void> {
+    const response = await this.send(
+      'PUT',
+      key,
+      {
+        'content-length': String(media.size),
+        'content-type': contentType(key),
+        [CHECKSUM_HEADER]: media.sha256,
+      },
+      media.sha256,
+      fs.createReadStream(filePath)
+    );
+    this.assertOk(response.status, 'PUT', key);
+
+    const stored = await this.stat(key);
+    if (stored?.size !== media.size) {
+      throw new Error(
+        `Stored object ${this.locate(key)} has size ${stored?.size}, expected ${media.size}`
+      );
+    }
+
+    await fs.promises.rm(filePath, { force: true });
+  }
+
+  locate(key: string): string {
+    const objectKey = encodeKey(this.prefix + key);
+    return this.publicUrl ? `${this.publicUrl}/${objectKey}` : `s3://${this.bucket}/${objectKey}`;
+  }
+
+  private async send(
+    method: 'HEAD' | 'PUT',
+    key: string,
+    headers: Record<string, string>,
+    payloadHash: string,
+    body?: fs.ReadStream
+  ) {
+    const url = new URL(
+      `${this.endpoint}/${encodeKey(this.bucket)}/${encodeKey(this.prefix + key)}`
+    );
+    const signed = signRequest(
+      { method, url, headers, payloadHash },
+      this.credentials,
+      this.region
+    );
+
+    return axios.request({
+      method,
+      url: url.toString(),
+      // host is set by the HTTP client
+      headers: Object.fromEntries(Object.entries(signed).filter(([name]) => name !== 'host')),
+      data: body,
+      maxBodyLength: Infinity,
+      validateStatus: () => true,
+    });
+  }
+
+  private assertOk(status: number, method: string, key: string): void {
+    if (status < 200 || status >= 300) {
+      throw new Error(`${method} ${this.locate(key)} failed with HTTP ${status}`);
+    }
+  }
+}
+
+function contentType(key: string): string {
+  switch (path.extname(key).toLowerCase()) {
+    case '.mp4':
+      return 'video/mp4';
+    case '.m4a':
+      return 'audio/mp4';
+    default:
+      return 'application/octet-stream';
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Media storage interface shared by the backends
+ */
+
+import fs from 'fs';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Size and checksum of a stored media file
+ */
+export interface StoredMedia {
+  size: number;
+  sha256?: string; // Unknown for objects stored without checksum metadata
+}
+
+/**
+ * Where recording media is kept. Keys are relative paths ("2024/03/10/standup/audio_only-ab12.m4a").
+ */
+export interface MediaStorage {
+  readonly location: string; // Human-readable location for logs and errors
+  readonly stagingDir: string; // Where partial downloads are kept until they are complete
+
+  /**
+   * Size and checksum of a stored file, or undefined if it is not stored yet
+   */
+  stat(key: string): Promise<StoredMedia | undefined>;
+
+  /**
+   * Store a complete, verified download. Implementations check the stored copy against
+   * the checksum and may move the source file instead of copying it.
+   */
+  put(key: string, filePath: string, media: Required<StoredMedia>): Promise<void>;
+
+  /**
+   * Where a stored file can be found: an absolute path or a URL
+   */
+  locate(key: string): string;
+}
+
+/**
+ * Hex SHA-256 digest of a file
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
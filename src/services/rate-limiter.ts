@@ -0,0 +1,109 @@
+/**
+ * Client-side rate limiter using Zoom's API rate limit categories
+ * See https://developers.zoom.us/docs/api/rate-limits/
+ */
+
+import { sleep } from '../utils/async.js';
+import type { RateLimitCategory } from '../types/index.js';
+
+/**
+ * Token bucket refilled continuously at a fixed number of requests per second
+ */
+class TokenBucket {
+  private ratePerSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number) {
+    this.ratePerSecond = ratePerSecond;
+    this.tokens = ratePerSecond;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token; waiters are served in order
+   */
+  acquire(): Promise<void> {
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Block the bucket until the given time (e.g. after a 429 with Retry-After)
+   */
+  pauseUntil(timestamp: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.ratePerSecond, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export class RateLimiter {
+  private buckets: Record<RateLimitCategory, TokenBucket>;
+
+  constructor(limits: Record<RateLimitCategory, number>) {
+    this.buckets = {
+      light: new TokenBucket(limits.light),
+      medium: new TokenBucket(limits.medium),
+      heavy: new TokenBucket(limits.heavy),
+    };
+  }
+
+  /**
+   * Wait until a request in the given category may be sent
+   */
+  acquire(category: RateLimitCategory): Promise<void> {
+    return this.buckets[category].acquire();
+  }
+
+  /**
+   * Hold back all requests in a category for the given duration
+   */
+  pause(category: RateLimitCategory, ms: number): void {
+    this.buckets[category].pauseUntil(Date.now() + ms);
+  }
+}
+
+/**
+ * Map a Zoom API endpoint to its rate limit category
+ */
+export function categorizeEndpoint(url: string): RateLimitCategory {
+  // Report endpoints are "Heavy" (and have daily limits on some plans)
+  if (/\/report\//.test(url)) {
+    return 'heavy';
+  }
+
+  // Recording listings and file downloads are "Medium"
+  if (/\/recordings\b|\/rec\/download\b|\/webhook_download\b/.test(url)) {
+    return 'medium';
+  }
+
+  return 'light';
+}
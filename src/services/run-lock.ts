@@ -0,0 +1,69 @@
+/**
+ * Run-level lock so scheduled, manual and backfill runs never overlap.
+ * The lock lives next to the state, using the state backend's lock primitive.
+ */
+
+import { logger } from '../utils/logger.js';
+import {
+  currentLockHolder,
+  describeLockHolder,
+  type LockHolder,
+  type StateStorage,
+} from './state-storage/index.js';
+
+export class RunLock {
+  private storage: StateStorage;
+  private holder: LockHolder;
+  private held = false;
+  private releaseOnSignal = (signal: NodeJS.Signals) => this.handleSignal(signal);
+
+  constructor(storage: StateStorage) {
+    this.storage = storage;
+    this.holder = currentLockHolder();
+  }
+
+  /**
+   * Take the lock. Throws StateLockedError while another run holds it.
+   */
+  async acquire(): Promise<void> {
+    await this.storage.acquireLock(this.holder);
+    this.held = true;
+
+    // A cancelled workflow or Ctrl-C should not leave the lock behind until it goes stale
+    process.once('SIGINT', this.releaseOnSignal);
+    process.once('SIGTERM', this.releaseOnSignal);
+
+    logger.info('Acquired run lock', {
+      location: this.storage.location,
+      holder: describeLockHolder(this.holder),
+    });
+  }
+
+  /**
+   * Release the lock if this process holds it
+   */
+  async release(): Promise<void> {
+    process.off('SIGINT', this.releaseOnSignal);
+    process.off('SIGTERM', this.releaseOnSignal);
+
+    if (!this.held) {
+      return;
+    }
+
+    this.held = false;
+    await this.storage.releaseLock();
+    logger.debug('Released run lock', { location: this.storage.location });
+  }
+
+  private async handleSignal(signal: NodeJS.Signals): Promise<void> {
+    logger.warning(`Received ${signal}, releasing run lock`);
+
+    try {
+      await this.release();
+    } catch (error) {
+      logger.error('Failed to release run lock', error as Error);
+    }
+
+    process.exit(signal === 'SIGINT' ? 130 : 143);
+  }
+}
@@ -2,57 +2,94 @@
  * State management for tracking processed recordings
  */
 
-import fs from 'fs/promises';
-import { existsSync } from 'fs';
 import crypto from 'crypto';
 import { logger } from '../utils/logger.js';
-import type { State, ProcessedRecording } from '../types/index.js';
+import { STATE_VERSION, parseState } from '../utils/state-schema.js';
+import type { StateStorage } from './state-storage/index.js';
+import type { State, ProcessedRecording, MeetingFailure, RetryEntry } from '../types/index.js';
+
+const MAX_RECENT_FAILURES = 20;
 
 export class StateManager {
-  private stateFilePath: string;
+  private storage: StateStorage;
   private state: State;
 
-  constructor(stateFilePath = '.state.json') {
-    this.stateFilePath = stateFilePath;
+  constructor(storage: StateStorage) {
+    this.storage = storage;
     this.state = this.getDefaultState();
   }
 
   /**
-   * Load state from disk
+   * Load state from storage. Missing state starts fresh; unreadable or invalid state
+   * throws, since starting fresh would re-archive months of meetings.
    */
   async load(): Promise<void> {
+    const { storage } = this;
+
     try {
-      if (existsSync(this.stateFilePath)) {
-        const content = await fs.readFile(this.stateFilePath, 'utf-8');
-        this.state = JSON.parse(content);
-        logger.info('Loaded state', {
-          totalMeetings: this.state.statistics.totalMeetings,
-          lastRun: this.state.statistics.lastRunAt,
-        });
-      } else {
-        logger.info('No existing state file found, starting fresh');
+      const content = await storage.read();
+
+      if (content === undefined) {
+        logger.info('No existing state found, starting fresh', { location: storage.location });
         this.state = this.getDefaultState();
+        return;
+      }
+
+      const data = JSON.parse(content);
+      this.state = parseState(data);
+
+      if (data.version !== STATE_VERSION) {
+        logger.info('Migrated state', { from: data.version ?? 0, to: STATE_VERSION });
       }
     } catch (error) {
-      logger.error('Failed to load state file, starting with default state', error as Error);
-      this.state = this.getDefaultState();
+      throw new Error(
+        `State ${storage.location} cannot be loaded: ${(error as Error).message}. ` +
+          `${storage.backupHint ?? ''} Restore or fix it; delete it only to re-archive everything from scratch.`
+      );
     }
+
+    logger.info('Loaded state', {
+      location: storage.location,
+      totalMeetings: this.state.statistics.totalMeetings,
+      lastRun: this.state.statistics.lastRunAt,
+    });
   }
 
   /**
-   * Save state to disk
+   * Save state to storage and publish it to other runs, at the end of a run
    */
   async save(): Promise<void> {
+    await this.checkpoint();
+
+    try {
+      await this.storage.publish();
+    } catch (error) {
+      logger.error('Failed to publish state', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save progress during a run. Backends may keep it local until save() (the git backend
+   * pushes once per run), so notes that were not published yet are not marked archived.
+   */
+  async checkpoint(): Promise<void> {
     try {
-      const content = JSON.stringify(this.state, null, 2);
-      await fs.writeFile(this.stateFilePath, content, 'utf-8');
-      logger.debug('Saved state to disk');
+      await this.storage.write(JSON.stringify(this.state, null, 2));
+      logger.debug('Saved state');
     } catch (error) {
-      logger.error('Failed to save state file', error as Error);
+      logger.error('Failed to save state', error as Error);
       throw error;
     }
   }
 
+  /**
+   * Files that hold the state and should be committed together with the notes
+   */
+  getTrackedFiles(): string[] {
+    return this.storage.trackedFiles;
+  }
+
   /**
    * Check if recording has been processed
    */
@@ -69,17 +106,100 @@ export class StateManager {
   }
 
   /**
-   * Get last fetch timestamp
+   * Get processed recording by UUID
+   */
+  getProcessedRecording(uuid: string): ProcessedRecording | undefined {
+    return this.state.processedRecordings[uuid];
+  }
+
+  /**
+   * Replace a processed recording after its note was regenerated
+   */
+  updateProcessedRecording(recording: ProcessedRecording): void {
+    this.state.processedRecordings[recording.uuid] = recording;
+  }
+
+  /**
+   * Replace all processed recordings, e.g. with records rebuilt from the notes on disk.
+   * Queued retries for meetings that turn out to be archived are dropped.
+   */
+  rebuildProcessedRecordings(recordings: ProcessedRecording[], lastFetchTimestamp?: string): void {
+    this.state.processedRecordings = Object.fromEntries(
+      recordings.map((recording) => [recording.uuid, recording])
+    );
+    this.state.statistics.totalMeetings = recordings.length;
+
+    for (const recording of recordings) {
+      this.removeRetryEntry(recording.uuid);
+    }
+
+    if (lastFetchTimestamp) {
+      this.state.lastFetchTimestamp = lastFetchTimestamp;
+    }
+  }
+
+  /**
+   * Remember a meeting that failed to process, for status reporting
+   */
+  recordFailure(failure: MeetingFailure): void {
+    this.state.recentFailures = [failure, ...(this.state.recentFailures || [])].slice(
+      0,
+      MAX_RECENT_FAILURES
+    );
+  }
+
+  /**
+   * Get a meeting's retry queue entry
+   */
+  getRetryEntry(uuid: string): RetryEntry | undefined {
+    return this.state.retryQueue?.[uuid];
+  }
+
+  /**
+   * All meetings in the retry queue, including ones that were given up on
    */
-  getLastFetchTimestamp(): string {
-    return this.state.lastFetchTimestamp;
+  getRetryQueue(): RetryEntry[] {
+    return Object.values(this.state.retryQueue || {});
   }
 
   /**
-   * Update last fetch timestamp
+   * Add or replace a meeting's retry queue entry
    */
-  updateLastFetchTimestamp(timestamp: string): void {
-    this.state.lastFetchTimestamp = timestamp;
+  setRetryEntry(entry: RetryEntry): void {
+    this.state.retryQueue = { ...this.state.retryQueue, [entry.meeting.uuid]: entry };
+  }
+
+  /**
+   * Remove a meeting from the retry queue, e.g. once it was archived
+   */
+  removeRetryEntry(uuid: string): void {
+    if (this.state.retryQueue && uuid in this.state.retryQueue) {
+      delete this.state.retryQueue[uuid];
+    }
+  }
+
+  /**
+   * Get last fetch timestamp (for a user in multi-user runs)
+   */
+  getLastFetchTimestamp(userId?: string): string {
+    if (userId === undefined) {
+      return this.state.lastFetchTimestamp;
+    }
+
+    // Users added to a multi-user run start from the default history window
+    return this.state.userCursors?.[userId] ?? this.getDefaultState().lastFetchTimestamp;
+  }
+
+  /**
+   * Update last fetch timestamp (for a user in multi-user runs)
+   */
+  updateLastFetchTimestamp(timestamp: string, userId?: string): void {
+    if (userId === undefined) {
+      this.state.lastFetchTimestamp = timestamp;
+      return;
+    }
+
+    this.state.userCursors = { ...this.state.userCursors, [userId]: timestamp };
   }
 
   /**
@@ -121,6 +241,7 @@ export class StateManager {
     fiveMonthsAgo.setHours(0, 0, 0, 0);
 
     return {
+      version: STATE_VERSION,
       lastFetchTimestamp: fiveMonthsAgo.toISOString(), // Last 5 months to stay within Zoom's 6-month limit
       processedRecordings: {},
       statistics: {
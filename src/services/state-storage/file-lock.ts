@@ -0,0 +1,101 @@
+/**
+ * Lock file next to a local state file, created exclusively so only one run can hold it
+ */
+
+import fs from 'fs/promises';
+import { logger } from '../../utils/logger.js';
+import { StateLockedError, isStaleLock, type LockHolder, type LockInfo } from './storage.js';
+
+export class FileLock {
+  private lockFilePath: string;
+  private location: string;
+  private timeoutMs: number;
+  private held?: LockInfo; // Lock written by this process
+
+  constructor(lockFilePath: string, location: string, timeoutMs: number) {
+    this.lockFilePath = lockFilePath;
+    this.location = location;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Create the lock file, replacing it once if it is stale
+   */
+  async acquire(holder: LockHolder): Promise<void> {
+    const info: LockInfo = { ...holder, acquiredAt: new Date().toISOString() };
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      try {
+        await fs.writeFile(this.lockFilePath, JSON.stringify(info, null, 2), {
+          encoding: 'utf-8',
+          flag: 'wx',
+        });
+        this.held = info;
+        logger.debug('Acquired state lock', { lockFile: this.lockFilePath });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const current = await this.readHolder();
+
+      // No holder means the lock file was removed in the meantime: just try again
+      if (current) {
+        if (!isStaleLock(current, this.timeoutMs)) {
+          throw new StateLockedError(this.location, current);
+        }
+
+        logger.warning('Removing stale state lock', { lockFile: this.lockFilePath, ...current });
+        await fs.rm(this.lockFilePath, { force: true });
+      }
+    }
+
+    // Another run replaced the stale lock between our attempts
+    throw new StateLockedError(this.location, await this.readHolder());
+  }
+
+  /**
+   * Remove the lock file if this process created it and still holds it
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+
+    const current = await this.readHolder();
+    const { held } = this;
+    this.held = undefined;
+
+    // A run that found our lock stale has taken it over; removing it would let a third run in
+    if (
+      current &&
+      (current.host !== held.host ||
+        current.pid !== held.pid ||
+        current.acquiredAt !== held.acquiredAt)
+    ) {
+      logger.warning('State lock was taken over by another run, leaving it', {
+        lockFile: this.lockFilePath,
+        ...current,
+      });
+      return;
+    }
+
+    await fs.rm(this.lockFilePath, { force: true });
+    logger.debug('Released state lock', { lockFile: this.lockFilePath });
+  }
+
+  /**
+   * Read the current holder. A lock file that cannot be parsed (e.g. still being written)
+   * is dated by its modification time.
+   */
+  private async readHolder(): Promise<LockInfo | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.lockFilePath, 'utf-8')) as LockInfo;
+    } catch {
+      const stats = await fs.stat(this.lockFilePath).catch(() => undefined);
+      return stats && { host: 'unknown', pid: 0, acquiredAt: stats.mtime.toISOString() };
+    }
+  }
+}
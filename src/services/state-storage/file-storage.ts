@@ -0,0 +1,70 @@
+/**
+ * State in a local JSON file (default backend), committed together with the notes
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { FileLock } from './file-lock.js';
+import { logger } from '../../utils/logger.js';
+import type { LockHolder, StateStorage } from './storage.js';
+
+export class FileStateStorage implements StateStorage {
+  readonly location: string;
+  readonly backupHint: string;
+  readonly trackedFiles: string[];
+  private stateFilePath: string;
+  private backupFilePath: string;
+  private backedUp = false;
+  private lock: FileLock;
+
+  constructor(stateFilePath: string, lockTimeoutMs: number) {
+    this.stateFilePath = stateFilePath;
+    this.backupFilePath = `${stateFilePath}.bak`;
+    this.location = stateFilePath;
+    this.backupHint = `The state before the last run is in ${this.backupFilePath}.`;
+    this.trackedFiles = [stateFilePath];
+    this.lock = new FileLock(`${stateFilePath}.lock`, stateFilePath, lockTimeoutMs);
+  }
+
+  async read(): Promise<string | undefined> {
+    if (!existsSync(this.stateFilePath)) {
+      return undefined;
+    }
+    return fs.readFile(this.stateFilePath, 'utf-8');
+  }
+
+  /**
+   * Write a temp file, then rename it over the state file. The first write in a run
+   * keeps the file it replaces as a backup.
+   */
+  async write(content: string): Promise<void> {
+    const tempFilePath = `${this.stateFilePath}.tmp`;
+
+    try {
+      await fs.writeFile(tempFilePath, content, 'utf-8');
+
+      if (!this.backedUp && existsSync(this.stateFilePath)) {
+        await fs.copyFile(this.stateFilePath, this.backupFilePath);
+        this.backedUp = true;
+        logger.debug('Backed up previous state', { backup: this.backupFilePath });
+      }
+
+      await fs.rename(tempFilePath, this.stateFilePath);
+    } catch (error) {
+      await fs.rm(tempFilePath, { force: true });
+      throw error;
+    }
+  }
+
+  async publish(): Promise<void> {
+    // Every write already replaces the file
+  }
+
+  acquireLock(holder: LockHolder): Promise<void> {
+    return this.lock.acquire(holder);
+  }
+
+  releaseLock(): Promise<void> {
+    return this.lock.release();
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * State on a dedicated git branch, so it never conflicts with the notes branch.
+ * Commits are built with plumbing commands. With a remote, each save commits locally
+ * and publish() pushes the last commit once at the end of the run; without one, the
+ * local branch moves on every save. Every ref update is a compare-and-swap against the
+ * commit this run last saw.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+import { logger } from '../../utils/logger.js';
+import {
+  StateLockedError,
+  describeLockHolder,
+  isStaleLock,
+  type LockHolder,
+  type LockInfo,
+  type StateStorage,
+} from './storage.js';
+import type { GitPublishConfig } from '../../types/index.js';
+
+const STATE_FILE = 'state.json';
+const LOCK_FILE = 'lock.json';
+
+export class GitStateStorage implements StateStorage {
+  readonly location: string;
+  readonly backupHint: string;
+  readonly trackedFiles: string[] = [];
+  private workspaceDir: string;
+  private git: SimpleGit;
+  private branch: string;
+  private lockBranch: string;
+  private remote: string;
+  private lockTimeoutMs: number;
+  private useRemote?: boolean;
+  private head?: string; // Last state commit, parent of the next write
+  private published?: string; // Commit the branch points to, as read or last updated by this run
+  private lockCommit?: string; // Lock commit created by this run
+
+  constructor(
+    workspaceDir: string,
+    branch: string,
+    config: GitPublishConfig,
+    lockTimeoutMs: number
+  ) {
+    this.workspaceDir = workspaceDir;
+    this.branch = branch;
+    this.lockBranch = `${branch}-lock`;
+    this.remote = config.remote;
+    this.lockTimeoutMs = lockTimeoutMs;
+    this.location = `git branch ${branch}`;
+    this.backupHint = `Earlier states are in the history of branch ${branch}.`;
+    this.git = simpleGit(workspaceDir).env({
+      ...process.env,
+      GIT_AUTHOR_NAME: config.authorName,
+      GIT_AUTHOR_EMAIL: config.authorEmail,
+      GIT_COMMITTER_NAME: config.authorName,
+      GIT_COMMITTER_EMAIL: config.authorEmail,
+    });
+  }
+
+  async read(): Promise<string | undefined> {
+    this.head = this.published = await this.resolveBranch(this.branch);
+
+    if (!this.head) {
+      return undefined;
+    }
+
+    return this.git.show([`${this.head}:${STATE_FILE}`]);
+  }
+
+  async write(content: string): Promise<void> {
+    this.head = await this.createCommit(STATE_FILE, content, 'Update archiver state', this.head);
+
+    // Saves happen after every meeting; pushing each one would cost a round trip per meeting
+    if (!(await this.hasRemote())) {
+      await this.publish();
+    }
+  }
+
+  async publish(): Promise<void> {
+    if (!this.head || this.head === this.published) {
+      return;
+    }
+
+    try {
+      await this.updateBranch(this.branch, this.head, this.published);
+    } catch (error) {
+      throw new Error(
+        `State on ${this.location} was changed by another run, not overwriting it: ${(error as Error).message}`
+      );
+    }
+
+    this.published = this.head;
+  }
+
+  async acquireLock(holder: LockHolder): Promise<void> {
+    const current = await this.resolveBranch(this.lockBranch);
+
+    if (current) {
+      const existing = await this.readLock(current);
+
+      if (existing && !isStaleLock(existing, this.lockTimeoutMs)) {
+        throw new StateLockedError(this.location, existing);
+      }
+
+      logger.warning('Replacing stale state lock', { branch: this.lockBranch, ...existing });
+    }
+
+    const info: LockInfo = { ...holder, acquiredAt: new Date().toISOString() };
+    const commit = await this.createCommit(
+      LOCK_FILE,
+      JSON.stringify(info, null, 2),
+      `Lock state for ${describeLockHolder(holder)}`
+    );
+
+    try {
+      await this.updateBranch(this.lockBranch, commit, current);
+    } catch {
+      // Another run took the lock between our read and our update
+      const winner = await this.resolveBranch(this.lockBranch);
+      throw new StateLockedError(this.location, winner ? await this.readLock(winner) : undefined);
+    }
+
+    this.lockCommit = commit;
+    logger.debug('Acquired state lock', { branch: this.lockBranch });
+  }
+
+  async releaseLock(): Promise<void> {
+    if (!this.lockCommit) {
+      return;
+    }
+
+    // A run that found our lock stale has taken it over; deleting it would let a third run in
+    const current = await this.resolveBranch(this.lockBranch);
+    if (current !== this.lockCommit) {
+      logger.warning('State lock was taken over by another run, leaving it', {
+        branch: this.lockBranch,
+        ...(current ? await this.readLock(current) : {}),
+      });
+      this.lockCommit = undefined;
+      return;
+    }
+
+    if (await this.hasRemote()) {
+      await this.git.raw([
+        'push',
+        `--force-with-lease=refs/heads/${this.lockBranch}:${this.lockCommit}`,
+        this.remote,
+        `:refs/heads/${this.lockBranch}`,
+      ]);
+    } else {
+      await this.git.raw(['update-ref', '-d', `refs/heads/${this.lockBranch}`, this.lockCommit]);
+    }
+
+    this.lockCommit = undefined;
+    logger.debug('Released state lock', { branch: this.lockBranch });
+  }
+
+  /**
+   * Current commit of a branch (fetched from the remote if there is one), or undefined
+   */
+  private async resolveBranch(branch: string): Promise<string | undefined> {
+    const ref = `refs/heads/${branch}`;
+
+    if (await this.hasRemote()) {
+      const listed = (await this.git.raw(['ls-remote', this.remote, ref])).trim();
+
+      if (!listed) {
+        return undefined;
+      }
+
+      await this.git.raw(['fetch', '--no-tags', this.remote, ref]);
+      return listed.split(/\s+/)[0];
+    }
+
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', '--quiet', ref])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Point a branch at a commit if it is still at `expected` (or, if undefined, does not exist)
+   */
+  private async updateBranch(branch: string, commit: string, expected?: string): Promise<void> {
+    const ref = `refs/heads/${branch}`;
+
+    if (await this.hasRemote()) {
+      // The lease alone allows the non-fast-forward update; a '+' refspec would bypass it
+      await this.git.raw([
+        'push',
+        `--force-with-lease=${ref}:${expected ?? ''}`,
+        this.remote,
+        `${commit}:${ref}`,
+      ]);
+      return;
+    }
+
+    await this.git.raw(['update-ref', ref, commit, expected ?? '0'.repeat(40)]);
+  }
+
+  /**
+   * Create a commit holding a single file, without touching the working tree or index
+   */
+  private async createCommit(
+    fileName: string,
+    content: string,
+    message: string,
+    parent?: string
+  ): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoom-notes-state-'));
+
+    try {
+      const contentFile = path.join(tempDir, fileName);
+      await fs.writeFile(contentFile, content, 'utf-8');
+
+      const blob = (await this.git.raw(['hash-object', '-w', contentFile])).trim();
+
+      // A throwaway index keeps the user's staging area untouched
+      const indexGit = simpleGit(this.workspaceDir).env({
+        ...process.env,
+        GIT_INDEX_FILE: path.join(tempDir, 'index'),
+      });
+      await indexGit.raw(['update-index', '--add', '--cacheinfo', `100644,${blob},${fileName}`]);
+      const tree = (await indexGit.raw(['write-tree'])).trim();
+
+      const args = ['commit-tree', tree, '-m', message];
+      if (parent) {
+        args.push('-p', parent);
+      }
+      return (await this.git.raw(args)).trim();
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the holder recorded in a lock commit
+   */
+  private async readLock(commit: string): Promise<LockInfo | undefined> {
+    try {
+      return JSON.parse(await this.git.show([`${commit}:${LOCK_FILE}`])) as LockInfo;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether the configured remote exists; without one the branches are kept locally
+   */
+  private async hasRemote(): Promise<boolean> {
+    if (this.useRemote === undefined) {
+      const remotes = await this.git.getRemotes();
+      this.useRemote = remotes.some((remote) => remote.name === this.remote);
+    }
+    return this.useRemote;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Storage backends for the state document, selected with STATE_BACKEND
+ */
+
+import path from 'path';
+import { FileStateStorage } from './file-storage.js';
+import { GitStateStorage } from './git-storage.js';
+import { SqliteStateStorage } from './sqlite-storage.js';
+import type { Config } from '../../types/index.js';
+import type { StateStorage } from './storage.js';
+
+export {
+  StateLockedError,
+  currentLockHolder,
+  describeLockHolder,
+  type LockHolder,
+  type LockInfo,
+  type StateStorage,
+} from './storage.js';
+
+/**
+ * Create the storage backend selected in config
+ */
+export function createStateStorage(config: Config): StateStorage {
+  const { state } = config;
+  const lockTimeoutMs = state.lockTimeoutMinutes * 60 * 1000;
+
+  switch (state.backend) {
+    case 'git':
+      return new GitStateStorage(config.workspaceDir, state.branch, config.git, lockTimeoutMs);
+    case 'sqlite':
+      return new SqliteStateStorage(
+        path.resolve(config.workspaceDir, state.path || '.state.sqlite'),
+        lockTimeoutMs
+      );
+    case 'file':
+      return new FileStateStorage(
+        path.resolve(config.workspaceDir, state.path || '.state.json'),
+        lockTimeoutMs
+      );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * State in a SQLite database file, for runners with a persistent disk.
+ * sql.js keeps the database in memory, so every write saves the whole file atomically.
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import initSqlJs, { type Database } from 'sql.js';
+import { FileLock } from './file-lock.js';
+import { logger } from '../../utils/logger.js';
+import type { LockHolder, StateStorage } from './storage.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS state (
+    name TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    saved_at TEXT NOT NULL
+  );
+`;
+
+// Rows of the state table: the current document, and the one it replaced at the start of the run
+const CURRENT = 'current';
+const PREVIOUS = 'previous';
+
+export class SqliteStateStorage implements StateStorage {
+  readonly location: string;
+  readonly backupHint: string;
+  readonly trackedFiles: string[];
+  private databasePath: string;
+  private database?: Database;
+  private backedUp = false;
+  private lock: FileLock;
+
+  constructor(databasePath: string, lockTimeoutMs: number) {
+    this.databasePath = databasePath;
+    this.location = databasePath;
+    this.backupHint = `The state before the last run is in the '${PREVIOUS}' row of its state table.`;
+    this.trackedFiles = [databasePath];
+    this.lock = new FileLock(`${databasePath}.lock`, databasePath, lockTimeoutMs);
+  }
+
+  async read(): Promise<string | undefined> {
+    const database = await this.open();
+    const rows = database.exec('SELECT content FROM state WHERE name = ?', [CURRENT]);
+    const content = rows[0]?.values[0]?.[0];
+
+    return typeof content === 'string' ? content : undefined;
+  }
+
+  async write(content: string): Promise<void> {
+    const database = await this.open();
+    const savedAt = new Date().toISOString();
+
+    if (!this.backedUp) {
+      database.run(
+        `INSERT OR REPLACE INTO state (name, content, saved_at)
+         SELECT ?, content, saved_at FROM state WHERE name = ?`,
+        [PREVIOUS, CURRENT]
+      );
+      this.backedUp = true;
+    }
+
+    database.run('INSERT OR REPLACE INTO state (name, content, saved_at) VALUES (?, ?, ?)', [
+      CURRENT,
+      content,
+      savedAt,
+    ]);
+
+    const tempFilePath = `${this.databasePath}.tmp`;
+
+    try {
+      await fs.writeFile(tempFilePath, database.export());
+      await fs.rename(tempFilePath, this.databasePath);
+    } catch (error) {
+      await fs.rm(tempFilePath, { force: true });
+      throw error;
+    }
+  }
+
+  async publish(): Promise<void> {
+    // Every write already replaces the file
+  }
+
+  acquireLock(holder: LockHolder): Promise<void> {
+    return this.lock.acquire(holder);
+  }
+
+  releaseLock(): Promise<void> {
+    return this.lock.release();
+  }
+
+  /**
+   * Load the database file into memory on first use, creating the schema if needed
+   */
+  private async open(): Promise<Database> {
+    if (!this.database) {
+      const SQL = await initSqlJs();
+      const data = existsSync(this.databasePath) ? await fs.readFile(this.databasePath) : undefined;
+
+      this.database = new SQL.Database(data);
+      this.database.run(SCHEMA);
+      logger.debug('Opened SQLite state database', { path: this.databasePath });
+    }
+
+    return this.database;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * State storage interface and lock bookkeeping shared by the backends
+ */
+
+import os from 'os';
+
+/**
+ * The process holding the state lock, stored with the lock so other runs can report it
+ */
+export interface LockHolder {
+  host: string;
+  pid: number;
+  runId?: string; // CI run, e.g. GitHub Actions run ID and attempt
+}
+
+export interface LockInfo extends LockHolder {
+  acquiredAt: string;
+}
+
+/**
+ * Where the serialized state lives. Implementations store the document as-is;
+ * parsing, validation and migrations happen in StateManager.
+ */
+export interface StateStorage {
+  readonly location: string; // Human-readable location for logs and errors
+  readonly backupHint?: string; // Where to find the previous state if the current one is damaged
+  readonly trackedFiles: string[]; // Files to commit together with the notes, if any
+
+  /**
+   * Read the stored state, or undefined if there is none yet
+   */
+  read(): Promise<string | undefined>;
+
+  /**
+   * Replace the stored state. Writes are atomic: a crash leaves the old or the new state.
+   */
+  write(content: string): Promise<void>;
+
+  /**
+   * Make the written state visible to other runs, for backends that keep writes local
+   * until the end of the run (the git backend pushes its branch once, here)
+   */
+  publish(): Promise<void>;
+
+  /**
+   * Take the state lock for this run. Throws StateLockedError while another run holds it;
+   * locks older than the configured timeout are treated as left over from a crashed run.
+   */
+  acquireLock(holder: LockHolder): Promise<void>;
+
+  /**
+   * Release the lock taken by acquireLock, if any
+   */
+  releaseLock(): Promise<void>;
+}
+
+/**
+ * Thrown when another run holds the state lock
+ */
+export class StateLockedError extends Error {
+  constructor(
+    readonly location: string,
+    readonly holder?: LockInfo
+  ) {
+    super(
+      holder
+        ? `State ${location} is locked by ${describeLockHolder(holder)} since ${holder.acquiredAt}`
+        : `State ${location} is locked by another run`
+    );
+    this.name = 'StateLockedError';
+  }
+}
+
+/**
+ * Identify the current process for the state lock
+ */
+export function currentLockHolder(): LockHolder {
+  const { GITHUB_RUN_ID, GITHUB_RUN_ATTEMPT } = process.env;
+
+  return {
+    host: os.hostname(),
+    pid: process.pid,
+    runId: GITHUB_RUN_ID ? `${GITHUB_RUN_ID}/${GITHUB_RUN_ATTEMPT || '1'}` : undefined,
+  };
+}
+
+/**
+ * Describe a lock holder for log messages
+ */
+export function describeLockHolder(holder: LockHolder): string {
+  const run = holder.runId ? `, run ${holder.runId}` : '';
+  return `pid ${holder.pid} on ${holder.host}${run}`;
+}
+
+/**
+ * Whether a lock was left behind: it outlived the timeout, or it was taken on this
+ * host by a process that no longer exists
+ */
+export function isStaleLock(holder: LockInfo, timeoutMs: number): boolean {
+  const acquiredAt = new Date(holder.acquiredAt).getTime();
+
+  if (isNaN(acquiredAt) || Date.now() - acquiredAt > timeoutMs) {
+    return true;
+  }
+
+  return (
+    holder.host === os.hostname() && typeof holder.pid === 'number' && !isProcessAlive(holder.pid)
+  );
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 checks for existence without delivering a signal
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
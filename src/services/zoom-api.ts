@@ -2,59 +2,41 @@
  * Zoom Cloud Recordings API client
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios from 'axios';
+import type { Readable } from 'stream';
 import { logger } from '../utils/logger.js';
 import { ZoomAuthClient } from './zoom-auth.js';
+import { ZoomHttpClient } from './http-client.js';
 import type {
   ZoomConfig,
+  HttpConfig,
   ZoomRecordingsResponse,
   ZoomRecording,
   ZoomMeetingSummary,
   ZoomMeeting,
-  ZoomMeetingsReportResponse
+  ZoomMeetingsReportResponse,
+  ZoomParticipant,
+  ZoomParticipantsReportResponse,
+  ZoomUser,
+  ZoomUsersResponse,
+  ZoomGroupMembersResponse
 } from '../types/index.js';
 
 export class ZoomApiClient {
   private authClient: ZoomAuthClient;
-  private axiosInstance: AxiosInstance;
+  private http: ZoomHttpClient;
   private userId: string;
 
-  constructor(config: ZoomConfig) {
+  constructor(config: ZoomConfig, httpConfig: HttpConfig) {
     this.authClient = new ZoomAuthClient(config);
     this.userId = config.userId || 'me';
-
-    this.axiosInstance = axios.create({
-      baseURL: 'https://api.zoom.us/v2',
-      timeout: 30000,
-    });
-
-    // Add request interceptor to include OAuth token
-    this.axiosInstance.interceptors.request.use(async (config) => {
-      const token = await this.authClient.getAccessToken();
-      config.headers.Authorization = `Bearer ${token}`;
-      return config;
-    });
-
-    // Add response interceptor for retry on 401
-    this.axiosInstance.interceptors.response.use(
-      (response) => response,
-      async (error) => {
-        if (error.response?.status === 401 && !error.config._retry) {
-          error.config._retry = true;
-          this.authClient.clearCache();
-          const token = await this.authClient.getAccessToken();
-          error.config.headers.Authorization = `Bearer ${token}`;
-          return this.axiosInstance.request(error.config);
-        }
-        return Promise.reject(error);
-      }
-    );
+    this.http = new ZoomHttpClient(this.authClient, httpConfig, config.apiBaseUrl);
   }
 
   /**
    * List cloud recordings for a user within a date range
    */
-  async listRecordings(from: Date, to: Date): Promise<ZoomRecording[]> {
+  async listRecordings(from: Date, to: Date, userId = this.userId): Promise<ZoomRecording[]> {
     const recordings: ZoomRecording[] = [];
     let nextPageToken: string | undefined;
 
@@ -75,10 +57,10 @@ export class ZoomApiClient {
           params.next_page_token = nextPageToken;
         }
 
-        logger.debug('API Request', { endpoint: `/users/${this.userId}/recordings`, params });
+        logger.debug('API Request', { endpoint: `/users/${encodeURIComponent(userId)}/recordings`, params });
 
-        const response = await this.axiosInstance.get<ZoomRecordingsResponse>(
-          `/users/${this.userId}/recordings`,
+        const response = await this.http.get<ZoomRecordingsResponse>(
+          `/users/${encodeURIComponent(userId)}/recordings`,
           { params }
         );
 
@@ -88,11 +70,6 @@ export class ZoomApiClient {
         nextPageToken = next_page_token;
 
         logger.info(`Fetched ${meetings.length} recordings (total: ${recordings.length}/${total_records})`);
-
-        // Rate limiting: wait 100ms between requests
-        if (nextPageToken) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
       } while (nextPageToken);
 
       logger.info(`Successfully fetched ${recordings.length} total recordings`);
@@ -130,7 +107,7 @@ export class ZoomApiClient {
    * This endpoint can fetch ALL meetings, not just cloud recordings
    * Note: Zoom limits queries to 30 days per request, so we'll chunk large ranges
    */
-  async listMeetings(from: Date, to: Date): Promise<ZoomMeeting[]> {
+  async listMeetings(from: Date, to: Date, userId = this.userId): Promise<ZoomMeeting[]> {
     const allMeetings: ZoomMeeting[] = [];
 
     // Split date range into 30-day chunks
@@ -161,12 +138,12 @@ export class ZoomApiClient {
           }
 
           logger.debug('API Request', {
-            endpoint: `/report/users/${this.userId}/meetings`,
+            endpoint: `/report/users/${encodeURIComponent(userId)}/meetings`,
             params
           });
 
-          const response = await this.axiosInstance.get<ZoomMeetingsReportResponse>(
-            `/report/users/${this.userId}/meetings`,
+          const response = await this.http.get<ZoomMeetingsReportResponse>(
+            `/report/users/${encodeURIComponent(userId)}/meetings`,
             { params }
           );
 
@@ -176,15 +153,7 @@ export class ZoomApiClient {
           nextPageToken = next_page_token;
 
           logger.info(`Fetched ${meetings.length} meetings from chunk (total so far: ${allMeetings.length})`);
-
-          // Rate limiting: wait 100ms between requests
-          if (nextPageToken) {
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          }
         } while (nextPageToken);
-
-        // Rate limiting between chunks
-        await new Promise((resolve) => setTimeout(resolve, 100));
       }
 
       logger.info(`Successfully fetched ${allMeetings.length} total meetings`);
@@ -217,6 +186,99 @@ export class ZoomApiClient {
     }
   }
 
+  /**
+   * List all active users in the account
+   */
+  async listUsers(): Promise<ZoomUser[]> {
+    const users: ZoomUser[] = [];
+    let nextPageToken: string | undefined;
+
+    try {
+      do {
+        const params: Record<string, string | number> = {
+          status: 'active',
+          page_size: 300,
+        };
+
+        if (nextPageToken) {
+          params.next_page_token = nextPageToken;
+        }
+
+        logger.debug('API Request', { endpoint: '/users', params });
+
+        const response = await this.http.get<ZoomUsersResponse>('/users', { params });
+
+        users.push(...response.data.users);
+        nextPageToken = response.data.next_page_token;
+      } while (nextPageToken);
+
+      logger.info(`Fetched ${users.length} active users`);
+      return users;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Failed to list users', {
+          status: error.response?.status,
+          code: error.response?.data?.code,
+          message: error.response?.data?.message || error.message,
+        });
+
+        if (error.response?.status === 403) {
+          logger.error('Permission denied. Check Zoom app scopes include: user:read:admin');
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List all members of a Zoom group
+   */
+  async listGroupMembers(groupId: string): Promise<ZoomUser[]> {
+    const members: ZoomUser[] = [];
+    let nextPageToken: string | undefined;
+
+    try {
+      do {
+        const params: Record<string, string | number> = {
+          page_size: 300,
+        };
+
+        if (nextPageToken) {
+          params.next_page_token = nextPageToken;
+        }
+
+        logger.debug('API Request', { endpoint: `/groups/${groupId}/members`, params });
+
+        const response = await this.http.get<ZoomGroupMembersResponse>(
+          `/groups/${encodeURIComponent(groupId)}/members`,
+          { params }
+        );
+
+        members.push(...response.data.members);
+        nextPageToken = response.data.next_page_token;
+      } while (nextPageToken);
+
+      logger.info(`Fetched ${members.length} members of group ${groupId}`);
+      return members;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Failed to list group members', {
+          groupId,
+          status: error.response?.status,
+          code: error.response?.data?.code,
+          message: error.response?.data?.message || error.message,
+        });
+
+        if (error.response?.status === 404) {
+          logger.error('Group not found. Check ZOOM_GROUP_ID setting.');
+        } else if (error.response?.status === 403) {
+          logger.error('Permission denied. Check Zoom app scopes include: group:read:admin');
+        }
+      }
+      throw error;
+    }
+  }
+
   /**
    * Split a date range into chunks of specified days (Zoom API limitation)
    */
@@ -251,12 +313,7 @@ export class ZoomApiClient {
    */
   async downloadFile(url: string): Promise<string> {
     try {
-      const token = await this.authClient.getAccessToken();
-
-      const response = await axios.get<string>(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
+      const response = await this.http.get<string>(url, {
         responseType: 'text',
       });
 
@@ -273,7 +330,65 @@ export class ZoomApiClient {
   }
 
   /**
-   * Get AI-generated meeting summary for a meeting
+   * Stream a file from Zoom (recording media), starting `offset` bytes in to resume a
+   * partial download. `resumed` is false when the server ignored the range and sent
+   * the whole file.
+   */
+  async downloadStream(url: string, offset = 0): Promise<{ stream: Readable; resumed: boolean }> {
+    try {
+      const response = await this.http.get<Readable>(url, {
+        responseType: 'stream',
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+      });
+
+      return { stream: response.data, resumed: response.status === 206 };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Failed to download file', {
+          url,
+          status: error.response?.status,
+        });
+      }
+      throw new Error(`Failed to download file: ${url}`);
+    }
+  }
+
+  /**
+   * Get details of a single past meeting instance
+   */
+  async getPastMeeting(meetingUuid: string): Promise<ZoomMeeting | null> {
+    try {
+      // Double encode the UUID as required by Zoom API
+      const encodedUuid = encodeURIComponent(encodeURIComponent(meetingUuid));
+
+      logger.debug(`Fetching past meeting details for: ${meetingUuid}`);
+
+      const response = await this.http.get<Omit<ZoomMeeting, 'timezone'> & { timezone?: string }>(
+        `/past_meetings/${encodedUuid}`
+      );
+
+      // Past meeting details do not include the meeting's timezone
+      return { ...response.data, timezone: response.data.timezone ?? '' };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404 || error.response?.data?.code === 3001) {
+          logger.debug(`Past meeting not found: ${meetingUuid}`);
+          return null;
+        }
+
+        logger.error('Failed to fetch past meeting details', {
+          uuid: meetingUuid,
+          status: error.response?.status,
+          code: error.response?.data?.code,
+          message: error.response?.data?.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get AI-generated meeting summary for a meeting, or null if it has none (yet)
    */
   async getMeetingSummary(meetingUuid: string): Promise<ZoomMeetingSummary | null> {
     try {
@@ -282,7 +397,7 @@ export class ZoomApiClient {
 
       logger.debug(`Fetching meeting summary for: ${meetingUuid}`);
 
-      const response = await this.axiosInstance.get<ZoomMeetingSummary>(
+      const response = await this.http.get<ZoomMeetingSummary>(
         `/meetings/${encodedUuid}/meeting_summary`
       );
 
@@ -303,7 +418,65 @@ export class ZoomApiClient {
           message: error.response?.data?.message,
         });
       }
-      return null;
+      // Anything else may be transient; the caller queues the meeting for a retry
+      throw error;
+    }
+  }
+
+  /**
+   * Get participants of a past meeting using the Reports API
+   * Each join is reported as its own entry, so participants who rejoin appear more than once
+   */
+  async getMeetingParticipants(meetingUuid: string): Promise<ZoomParticipant[]> {
+    const participants: ZoomParticipant[] = [];
+    let nextPageToken: string | undefined;
+
+    // Double encode the UUID as required by Zoom API
+    const encodedUuid = encodeURIComponent(encodeURIComponent(meetingUuid));
+
+    try {
+      do {
+        const params: Record<string, string | number> = {
+          page_size: 300,
+        };
+
+        if (nextPageToken) {
+          params.next_page_token = nextPageToken;
+        }
+
+        logger.debug('API Request', {
+          endpoint: `/report/meetings/${encodedUuid}/participants`,
+          params
+        });
+
+        const response = await this.http.get<ZoomParticipantsReportResponse>(
+          `/report/meetings/${encodedUuid}/participants`,
+          { params }
+        );
+
+        participants.push(...response.data.participants);
+        nextPageToken = response.data.next_page_token;
+      } while (nextPageToken);
+
+      logger.debug(`Fetched ${participants.length} participant sessions for: ${meetingUuid}`);
+      return participants;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404 || error.response?.data?.code === 3001) {
+          // 3001 = Meeting does not exist (or report not yet available)
+          logger.debug(`No participant report available for: ${meetingUuid}`);
+          return [];
+        }
+
+        logger.error('Failed to fetch meeting participants', {
+          uuid: meetingUuid,
+          status: error.response?.status,
+          code: error.response?.data?.code,
+          message: error.response?.data?.message,
+        });
+      }
+      // A note without its attendees would be final; fail so the meeting is retried
+      throw error;
     }
   }
 
@@ -52,7 +52,7 @@ export class ZoomAuthClient {
    * Request a new OAuth token from Zoom
    */
   private async requestAccessToken(): Promise<OAuthToken> {
-    const url = 'https://zoom.us/oauth/token';
+    const url = this.config.oauthUrl || 'https://zoom.us/oauth/token';
     const params = {
       grant_type: 'account_credentials',
       account_id: this.config.accountId,
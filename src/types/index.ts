@@ -7,6 +7,8 @@ export interface ZoomConfig {
   clientId: string;
   clientSecret: string;
   userId?: string; // Optional: defaults to 'me'
+  apiBaseUrl?: string; // Optional: defaults to https://api.zoom.us/v2
+  oauthUrl?: string; // Optional: defaults to https://zoom.us/oauth/token
 }
 
 export interface ZoomRecording {
@@ -35,6 +37,7 @@ export interface RecordingFile {
   file_extension: string;
   file_size: number;
   download_url: string;
+  play_url?: string;
   status: string;
   recording_type: string;
 }
@@ -87,6 +90,32 @@ export interface ZoomMeeting {
   participants_count?: number;
 }
 
+export interface ZoomUser {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  display_name?: string;
+  type?: number;
+  status?: string;
+}
+
+export interface ZoomUsersResponse {
+  page_count: number;
+  page_size: number;
+  total_records: number;
+  next_page_token?: string;
+  users: ZoomUser[];
+}
+
+export interface ZoomGroupMembersResponse {
+  page_count: number;
+  page_size: number;
+  total_records: number;
+  next_page_token?: string;
+  members: ZoomUser[];
+}
+
 export interface ZoomMeetingsReportResponse {
   from: string;
   to: string;
@@ -97,9 +126,29 @@ export interface ZoomMeetingsReportResponse {
   meetings: ZoomMeeting[];
 }
 
+export interface ZoomParticipant {
+  id?: string; // Zoom user ID, empty for guests
+  user_id?: string; // Participant's ID for this meeting session
+  name: string;
+  user_email?: string;
+  join_time: string;
+  leave_time: string;
+  duration: number; // Seconds attended in this session
+  status?: string;
+}
+
+export interface ZoomParticipantsReportResponse {
+  page_count: number;
+  page_size: number;
+  total_records: number;
+  next_page_token?: string;
+  participants: ZoomParticipant[];
+}
+
 export interface TranscriptSegment {
   speaker: string;
-  timestamp: string;
+  timestamp: string; // Start time, HH:MM:SS
+  endTimestamp?: string; // End time, HH:MM:SS
   text: string;
 }
 
@@ -108,6 +157,43 @@ export interface ParsedTranscript {
   rawText: string;
 }
 
+export interface ChatReaction {
+  emoji: string;
+  senders: string[];
+}
+
+export interface ChatMessage {
+  timestamp: string; // HH:MM:SS from the start of the recording
+  sender: string;
+  recipient?: string; // Set for direct messages, unset for messages to everyone
+  text: string; // May span several lines
+  replyTo?: string; // Start of the message this one replies to, in threaded chats
+  reactions?: ChatReaction[];
+}
+
+export interface SharedLink {
+  url: string;
+  sender: string;
+  timestamp: string;
+}
+
+export interface ParsedChat {
+  messages: ChatMessage[];
+  links: SharedLink[]; // Every URL posted in the chat, in order of first appearance
+}
+
+/**
+ * A recording file copied to the media store
+ */
+export interface ArchivedMedia {
+  fileName: string;
+  fileType: RecordingFile['file_type'];
+  recordingType: string; // e.g. shared_screen_with_speaker_view, audio_only
+  size: number; // Bytes
+  sha256: string; // Hex digest, verified after download and after storing
+  location: string; // Absolute path (local backend) or URL (s3 backend)
+}
+
 export interface ActionItem {
   text: string;
   assignee?: string;
@@ -115,36 +201,114 @@ export interface ActionItem {
   confidence: number; // 0-1 score
 }
 
+export interface MeetingParticipant {
+  name: string;
+  email?: string;
+  joinTime: string; // First join
+  leaveTime: string; // Last leave
+  duration: number; // Total seconds attended across rejoins
+}
+
 export interface MeetingMetadata {
   title: string;
   meetingId: string;
   uuid: string;
   startTime: string;
+  timezone?: string; // IANA zone used to display times and bucket folders, defaults to UTC
   duration: number;
   host: string;
   participants: string[];
+  attendance?: MeetingParticipant[]; // From the Zoom Reports participants endpoint
   recordingCount: number;
   transcriptAvailable: boolean;
 }
 
+export interface SummarySection {
+  label: string;
+  summary: string;
+}
+
+export interface MeetingSummary {
+  overview: string;
+  sections: SummarySection[];
+  docUrl?: string;
+}
+
 export interface MeetingNote {
   metadata: MeetingMetadata;
+  summary?: MeetingSummary; // Zoom AI Companion summary, kept apart from the verbatim transcript
   transcript: ParsedTranscript;
+  chat?: ParsedChat; // In-meeting chat from the cloud recording
+  media?: ArchivedMedia[]; // Recording files kept in the media store
   actionItems: ActionItem[];
   keyPoints?: string[];
 }
 
+/**
+ * Companion .meta.json written next to a note. URLs have tokens and passcodes removed.
+ */
+export interface MeetingMeta {
+  uuid: string;
+  meetingId: string;
+  title: string;
+  startTime: string;
+  shareUrl?: string; // Cloud recording share page
+  summaryDocUrl?: string; // AI summary in Zoom Docs
+  recordingFiles: Array<{
+    id: string;
+    type: RecordingFile['file_type'];
+    recordingType: string; // e.g. shared_screen_with_speaker_view, audio_transcript
+    extension: string;
+    size: number; // Bytes
+    recordingStart: string;
+    recordingEnd: string;
+    status: string;
+    playUrl?: string;
+  }>;
+}
+
 export interface ProcessedRecording {
   uuid: string;
   meetingId: string;
   processedAt: string;
   filePath: string;
-  hash: string;
+  hash: string; // Hash of the generated Markdown (before merging user edits)
+  userId?: string; // Zoom user the meeting was archived for, in multi-user runs
+  summaryModifiedAt?: string; // summary_last_modified_time of the AI summary used
+}
+
+export interface MeetingFailure {
+  uuid: string;
+  topic: string;
+  startTime: string;
+  error: string;
+  failedAt: string;
+  userId?: string;
+}
+
+/**
+ * A meeting waiting to be retried: processing failed, its AI summary and transcript
+ * were not available yet, or its note is incomplete (archived from the transcript
+ * before the summary appeared, or recording media failed to copy)
+ */
+export interface RetryEntry {
+  meeting: ZoomMeeting; // Snapshot, later runs may not fetch this meeting's date range
+  userId?: string;
+  reason: 'error' | 'no-content' | 'no-summary' | 'media';
+  attempts: number;
+  lastError: string;
+  firstQueuedAt: string;
+  lastAttemptAt: string;
+  nextRetryAt?: string; // Unset once attempts are exhausted
 }
 
 export interface State {
+  version: number; // Schema version, see STATE_VERSION
   lastFetchTimestamp: string;
+  userCursors?: Record<string, string>; // Per-user lastFetchTimestamp, in multi-user runs
   processedRecordings: Record<string, ProcessedRecording>;
+  recentFailures?: MeetingFailure[]; // Most recent first, capped
+  retryQueue?: Record<string, RetryEntry>; // Keyed by meeting UUID
   statistics: {
     totalMeetings: number;
     lastRunStatus: 'success' | 'failure' | 'partial';
@@ -153,12 +317,120 @@ export interface State {
   };
 }
 
+export type RateLimitCategory = 'light' | 'medium' | 'heavy';
+
+export interface HttpConfig {
+  maxAttempts: number; // Total attempts per request, including the first
+  baseDelayMs: number; // Backoff delay before the first retry, doubled for each retry
+  maxDelayMs: number; // Upper bound for backoff and Retry-After waits
+  jitter: number; // 0-1 fraction of random spread applied to backoff delays
+  timeoutMs: number;
+  rateLimits: Record<RateLimitCategory, number>; // Requests per second per category
+}
+
+export interface GitPublishConfig {
+  enabled: boolean; // Commit notes written in a run
+  push: boolean; // Push the commit after creating it
+  remote: string;
+  branch?: string; // Defaults to the current branch
+  authorName: string;
+  authorEmail: string;
+  maxPushAttempts: number;
+}
+
+export interface UserSelection {
+  userIds: string[]; // Explicit list of Zoom user IDs or emails
+  groupId?: string; // Archive all members of a Zoom group
+  allUsers: boolean; // Archive every active user in the account
+}
+
+export interface RetryConfig {
+  maxAttempts: number; // Attempts per meeting, including the first, before giving up
+  baseDelayMinutes: number; // Delay before the first retry, doubled for each retry
+}
+
+export type CollisionStrategy = 'skip' | 'suffix' | 'overwrite';
+
+export type StateBackend = 'file' | 'git' | 'sqlite';
+
+export type MediaBackend = 'local' | 's3';
+
+export interface S3Config {
+  endpoint?: string; // S3-compatible endpoint, defaults to AWS for the region
+  bucket?: string;
+  region: string;
+  prefix: string; // Prepended to every object key
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  publicUrl?: string; // Base URL for links in notes, defaults to s3://bucket/key
+}
+
+export interface MediaConfig {
+  enabled: boolean; // Download recording media to the media store
+  fileTypes: Array<RecordingFile['file_type']>; // Recording file types to download
+  backend: MediaBackend;
+  path: string; // local: directory relative to workspaceDir
+  maxFileSizeMb: number; // Larger files are skipped
+  s3: S3Config;
+}
+
+export type TranscriptMode = 'full' | 'compact';
+
+export interface TranscriptConfig {
+  mode: TranscriptMode; // full: one line per cue; compact: consecutive turns merged into paragraphs
+  mergeGapSeconds: number; // compact: merge same-speaker segments at most this far apart
+  removeFillers: boolean; // Drop filler words ("um", "uh") and immediately repeated words
+}
+
+export interface StateStorageConfig {
+  backend: StateBackend;
+  path?: string; // file and sqlite: relative to workspaceDir, defaults to .state.json / .state.sqlite
+  branch: string; // git: branch holding the state, separate from the notes branch
+  lockTimeoutMinutes: number; // A lock older than this is left over from a crashed run
+}
+
 export interface Config {
   zoom: ZoomConfig;
+  users: UserSelection; // Users to archive beyond zoom.userId; empty means zoom.userId only
   workspaceDir: string;
   outputDir: string;
+  pathPattern: string; // Note path relative to outputDir, see utils/note-path.ts for tokens
+  displayTimezone?: string; // Overrides the meeting's own timezone for display and folders
+  onCollision: CollisionStrategy; // What to do when another meeting's note has the same path
   pollIntervalMinutes?: number;
   enableActionItemExtraction?: boolean;
+  archiveChat: boolean; // Add the in-meeting chat from cloud recordings to notes
+  writeMetaFile: boolean; // Write a companion .meta.json with the recording files next to each note
+  media: MediaConfig;
   enableLLMProcessing?: boolean;
-  maxRecordingsPerRun?: number;
+  maxRecordingsPerRun: number; // Meetings processed per run; the rest are resumed by the next run
+  timeBudgetMinutes: number; // Stop starting new meetings after this long (0 = no limit)
+  templatePath?: string; // Handlebars template for note bodies, relative to workspaceDir
+  speakerAliasesPath?: string; // JSON map of canonical names to aliases, relative to workspaceDir
+  transcript: TranscriptConfig;
+  updateExisting: boolean; // Regenerate notes whose AI summary was edited
+  updateLookbackDays: number; // How far back to re-check archived meetings in update mode
+  dryRun: boolean; // Run the whole pipeline but write nothing and don't save state
+  concurrency: number; // Meetings processed in parallel
+  retry: RetryConfig;
+  state: StateStorageConfig;
+  http: HttpConfig;
+  git: GitPublishConfig;
 }
+
+/**
+ * Config values set from the command line, applied on top of environment variables
+ */
+export type ConfigOverrides = Partial<
+  Omit<Config, 'zoom' | 'users' | 'transcript' | 'media' | 'retry' | 'state' | 'http' | 'git'>
+> & {
+  zoom?: Partial<ZoomConfig>;
+  users?: Partial<UserSelection>;
+  transcript?: Partial<TranscriptConfig>;
+  media?: Partial<Omit<MediaConfig, 's3'>>;
+  retry?: Partial<RetryConfig>;
+  state?: Partial<StateStorageConfig>;
+  http?: Partial<HttpConfig>;
+  git?: Partial<GitPublishConfig>;
+};
@@ -0,0 +1,65 @@
+/**
+ * Async helpers
+ */
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a worker over items with at most `concurrency` running at once.
+ * onSettled is called for each item in input order, as soon as it and every
+ * earlier item have finished, and never for two items at the same time.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled: (result: R, index: number) => void | Promise<void> = () => {}
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const finished: boolean[] = new Array(items.length).fill(false);
+  let nextToStart = 0;
+  let nextToSettle = 0;
+  let settling = Promise.resolve();
+
+  const settleInOrder = (): Promise<void> => {
+    settling = settling.then(async () => {
+      while (nextToSettle < items.length && finished[nextToSettle]) {
+        const index = nextToSettle++;
+        await onSettled(results[index], index);
+      }
+    });
+    return settling;
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (nextToStart < items.length) {
+      const index = nextToStart++;
+      results[index] = await worker(items[index], index);
+      finished[index] = true;
+      await settleInOrder();
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
+
+/**
+ * Create a lock that runs the tasks passed to it one at a time
+ */
+export function createLock(): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
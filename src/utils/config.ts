@@ -3,7 +3,9 @@
  */
 
 import { z } from 'zod';
-import type { Config } from '../types/index.js';
+import { DEFAULT_PATH_PATTERN } from './note-path.js';
+import { isValidTimezone } from './timezone.js';
+import type { Config, ConfigOverrides } from '../types/index.js';
 
 const ConfigSchema = z.object({
   zoom: z.object({
@@ -11,33 +13,224 @@ const ConfigSchema = z.object({
     clientId: z.string().min(1, 'ZOOM_CLIENT_ID is required'),
     clientSecret: z.string().min(1, 'ZOOM_CLIENT_SECRET is required'),
     userId: z.string().optional(),
+    apiBaseUrl: z.string().url().optional(),
+    oauthUrl: z.string().url().optional(),
+  }),
+  users: z.object({
+    userIds: z.array(z.string().min(1)).default([]),
+    groupId: z.string().optional(),
+    allUsers: z.boolean().default(false),
   }),
   workspaceDir: z.string().default(process.cwd()),
   outputDir: z.string().default('meeting-notes'),
+  pathPattern: z.string().min(1).default(DEFAULT_PATH_PATTERN),
+  onCollision: z.enum(['skip', 'suffix', 'overwrite']).default('suffix'),
+  displayTimezone: z
+    .string()
+    .refine(isValidTimezone, 'DISPLAY_TIMEZONE must be an IANA timezone')
+    .optional(),
   pollIntervalMinutes: z.number().min(5).max(60).default(15),
   enableActionItemExtraction: z.boolean().default(true),
+  archiveChat: z.boolean().default(true),
+  writeMetaFile: z.boolean().default(false),
+  media: z.object({
+    enabled: z.boolean().default(false),
+    fileTypes: z
+      .array(z.enum(['MP4', 'M4A', 'TIMELINE', 'TRANSCRIPT', 'CHAT', 'CC', 'CSV']))
+      .min(1)
+      .default(['MP4', 'M4A']),
+    backend: z.enum(['local', 's3']).default('local'),
+    path: z.string().min(1).default('meeting-media'),
+    // A single S3 PUT is limited to 5 GB
+    maxFileSizeMb: z.number().min(1).max(5120).default(2048),
+    s3: z.object({
+      endpoint: z.string().url().optional(),
+      bucket: z.string().min(1).optional(),
+      region: z.string().min(1).default('us-east-1'),
+      prefix: z.string().default(''),
+      accessKeyId: z.string().min(1).optional(),
+      secretAccessKey: z.string().min(1).optional(),
+      sessionToken: z.string().optional(),
+      publicUrl: z.string().url().optional(),
+    }),
+  }),
   enableLLMProcessing: z.boolean().default(false),
   maxRecordingsPerRun: z.number().min(1).max(1000).default(100),
+  timeBudgetMinutes: z.number().min(0).default(5),
+  templatePath: z.string().optional(),
+  speakerAliasesPath: z.string().optional(),
+  transcript: z.object({
+    mode: z.enum(['full', 'compact']).default('full'),
+    mergeGapSeconds: z.number().min(0).default(5),
+    removeFillers: z.boolean().default(false),
+  }),
+  updateExisting: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+  concurrency: z.number().int().min(1).max(20).default(4),
+  updateLookbackDays: z.number().min(1).max(180).default(7),
+  retry: z.object({
+    maxAttempts: z.number().min(1).max(50).default(5),
+    baseDelayMinutes: z.number().min(1).default(60),
+  }),
+  state: z.object({
+    backend: z.enum(['file', 'git', 'sqlite']).default('file'),
+    path: z.string().min(1).optional(),
+    branch: z.string().min(1).default('zoom-notes-state'),
+    lockTimeoutMinutes: z.number().min(1).default(60),
+  }),
+  http: z.object({
+    maxAttempts: z.number().min(1).max(10).default(3),
+    baseDelayMs: z.number().min(0).default(1000),
+    maxDelayMs: z.number().min(0).default(60000),
+    jitter: z.number().min(0).max(1).default(0.2),
+    timeoutMs: z.number().min(1000).default(30000),
+    rateLimits: z.object({
+      light: z.number().min(1).default(30),
+      medium: z.number().min(1).default(20),
+      heavy: z.number().min(1).default(10),
+    }),
+  }),
+  git: z.object({
+    enabled: z.boolean().default(false),
+    push: z.boolean().default(false),
+    remote: z.string().min(1).default('origin'),
+    branch: z.string().optional(),
+    authorName: z.string().min(1).default('github-actions[bot]'),
+    authorEmail: z.string().min(1).default('github-actions[bot]@users.noreply.github.com'),
+    maxPushAttempts: z.number().min(1).max(10).default(3),
+  }),
 });
 
-export function loadConfig(): Config {
-  const config: Config = {
+export interface LoadConfigOptions {
+  requireCredentials?: boolean; // Commands that only read local state don't need Zoom credentials
+}
+
+/**
+ * Load configuration from environment variables, with command-line overrides applied on top
+ */
+export function loadConfig(
+  overrides: ConfigOverrides = {},
+  options: LoadConfigOptions = {}
+): Config {
+  const env: Config = {
     zoom: {
       accountId: process.env.ZOOM_ACCOUNT_ID || '',
       clientId: process.env.ZOOM_CLIENT_ID || '',
       clientSecret: process.env.ZOOM_CLIENT_SECRET || '',
       userId: process.env.ZOOM_USER_ID || 'me',
+      apiBaseUrl: process.env.ZOOM_API_BASE_URL || undefined,
+      oauthUrl: process.env.ZOOM_OAUTH_URL || undefined,
+    },
+    users: {
+      userIds: (process.env.ZOOM_USER_IDS || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+      groupId: process.env.ZOOM_GROUP_ID || undefined,
+      allUsers: process.env.ZOOM_ALL_USERS === 'true',
     },
     workspaceDir: process.env.WORKSPACE_DIR || process.cwd(),
     outputDir: process.env.OUTPUT_DIR || 'meeting-notes',
+    pathPattern: process.env.OUTPUT_PATH_PATTERN || DEFAULT_PATH_PATTERN,
+    onCollision: (process.env.ON_COLLISION || 'suffix') as Config['onCollision'],
+    displayTimezone: process.env.DISPLAY_TIMEZONE || undefined,
     pollIntervalMinutes: parseInt(process.env.POLL_INTERVAL_MINUTES || '15', 10),
     enableActionItemExtraction: process.env.ENABLE_ACTION_ITEMS !== 'false',
+    archiveChat: process.env.ARCHIVE_CHAT !== 'false',
+    writeMetaFile: process.env.WRITE_META_FILE === 'true',
+    media: {
+      enabled: process.env.ARCHIVE_MEDIA === 'true',
+      fileTypes: (process.env.MEDIA_FILE_TYPES || 'MP4,M4A')
+        .split(',')
+        .map((type) => type.trim().toUpperCase())
+        .filter(Boolean) as Config['media']['fileTypes'],
+      backend: (process.env.MEDIA_BACKEND || 'local') as Config['media']['backend'],
+      path: process.env.MEDIA_PATH || 'meeting-media',
+      maxFileSizeMb: parseInt(process.env.MEDIA_MAX_FILE_SIZE_MB || '2048', 10),
+      s3: {
+        endpoint: process.env.MEDIA_S3_ENDPOINT || undefined,
+        bucket: process.env.MEDIA_S3_BUCKET || undefined,
+        region: process.env.MEDIA_S3_REGION || process.env.AWS_REGION || 'us-east-1',
+        prefix: process.env.MEDIA_S3_PREFIX || '',
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || undefined,
+        sessionToken: process.env.AWS_SESSION_TOKEN || undefined,
+        publicUrl: process.env.MEDIA_PUBLIC_URL || undefined,
+      },
+    },
     enableLLMProcessing: process.env.ENABLE_LLM === 'true',
     maxRecordingsPerRun: parseInt(process.env.MAX_RECORDINGS_PER_RUN || '100', 10),
+    timeBudgetMinutes: parseFloat(process.env.TIME_BUDGET_MINUTES || '5'),
+    templatePath: process.env.TEMPLATE_PATH || undefined,
+    speakerAliasesPath: process.env.SPEAKER_ALIASES_PATH || undefined,
+    transcript: {
+      mode: (process.env.TRANSCRIPT_MODE || 'full') as Config['transcript']['mode'],
+      mergeGapSeconds: parseFloat(process.env.TRANSCRIPT_MERGE_GAP_SECONDS || '5'),
+      removeFillers: process.env.TRANSCRIPT_REMOVE_FILLERS === 'true',
+    },
+    updateExisting: process.env.UPDATE_EXISTING === 'true',
+    dryRun: process.env.DRY_RUN === 'true',
+    concurrency: parseInt(process.env.CONCURRENCY || '4', 10),
+    updateLookbackDays: parseInt(process.env.UPDATE_LOOKBACK_DAYS || '7', 10),
+    retry: {
+      maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || '5', 10),
+      baseDelayMinutes: parseInt(process.env.RETRY_BASE_DELAY_MINUTES || '60', 10),
+    },
+    state: {
+      backend: (process.env.STATE_BACKEND || 'file') as Config['state']['backend'],
+      path: process.env.STATE_PATH || undefined,
+      branch: process.env.STATE_BRANCH || 'zoom-notes-state',
+      lockTimeoutMinutes: parseInt(process.env.STATE_LOCK_TIMEOUT_MINUTES || '60', 10),
+    },
+    http: {
+      maxAttempts: parseInt(process.env.HTTP_MAX_ATTEMPTS || '3', 10),
+      baseDelayMs: parseInt(process.env.HTTP_RETRY_BASE_DELAY_MS || '1000', 10),
+      maxDelayMs: parseInt(process.env.HTTP_RETRY_MAX_DELAY_MS || '60000', 10),
+      jitter: parseFloat(process.env.HTTP_RETRY_JITTER || '0.2'),
+      timeoutMs: parseInt(process.env.HTTP_TIMEOUT_MS || '30000', 10),
+      rateLimits: {
+        light: parseInt(process.env.ZOOM_RATE_LIMIT_LIGHT || '30', 10),
+        medium: parseInt(process.env.ZOOM_RATE_LIMIT_MEDIUM || '20', 10),
+        heavy: parseInt(process.env.ZOOM_RATE_LIMIT_HEAVY || '10', 10),
+      },
+    },
+    git: {
+      enabled: process.env.GIT_COMMIT === 'true',
+      push: process.env.GIT_PUSH === 'true',
+      remote: process.env.GIT_REMOTE || 'origin',
+      branch: process.env.GIT_BRANCH || undefined,
+      authorName: process.env.GIT_USER_NAME || 'github-actions[bot]',
+      authorEmail: process.env.GIT_USER_EMAIL || 'github-actions[bot]@users.noreply.github.com',
+      maxPushAttempts: parseInt(process.env.GIT_PUSH_ATTEMPTS || '3', 10),
+    },
   };
 
+  const config: Config = {
+    ...env,
+    ...definedValues(overrides),
+    zoom: { ...env.zoom, ...definedValues(overrides.zoom) },
+    users: { ...env.users, ...definedValues(overrides.users) },
+    transcript: { ...env.transcript, ...definedValues(overrides.transcript) },
+    media: { ...env.media, ...definedValues(overrides.media) },
+    retry: { ...env.retry, ...definedValues(overrides.retry) },
+    state: { ...env.state, ...definedValues(overrides.state) },
+    http: { ...env.http, ...definedValues(overrides.http) },
+    git: { ...env.git, ...definedValues(overrides.git) },
+  };
+
+  const schema =
+    options.requireCredentials === false
+      ? ConfigSchema.extend({
+          zoom: ConfigSchema.shape.zoom.extend({
+            accountId: z.string(),
+            clientId: z.string(),
+            clientSecret: z.string(),
+          }),
+        })
+      : ConfigSchema;
+
   try {
-    return ConfigSchema.parse(config);
+    return schema.parse(config);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const missingFields = error.errors.map((e) => e.path.join('.')).join(', ');
@@ -46,3 +239,12 @@ export function loadConfig(): Config {
     throw error;
   }
 }
+
+/**
+ * Drop undefined entries so unset overrides don't replace environment values
+ */
+function definedValues<T extends object>(values: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Unified diffs for previewing note changes
+ */
+
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * Unified diff between two versions of a file, in git's a/ b/ style.
+ * An empty `before` is shown as a new file.
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string): string {
+  const patch = createTwoFilesPatch(
+    before ? `a/${filePath}` : '/dev/null',
+    `b/${filePath}`,
+    before,
+    after,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+
+  // Drop the "=====" separator line jsdiff puts before the file headers
+  return patch.replace(/^=+\n/, '').trimEnd();
+}
@@ -2,15 +2,76 @@
  * Structured logger for GitHub Actions compatibility
  */
 
-type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warning: 2, error: 3 };
+
+/**
+ * Log lines held back by capture(), replayed with flush()
+ */
+export type CapturedLog = Array<{ stream: 'stdout' | 'stderr'; line: string }>;
 
 class Logger {
   private isGitHubActions: boolean;
+  private minLevel: LogLevel = 'debug';
+  private captureStorage = new AsyncLocalStorage<CapturedLog>();
 
   constructor() {
     this.isGitHubActions = process.env.GITHUB_ACTIONS === 'true';
   }
 
+  /**
+   * Hide messages below a level, e.g. for commands that print their own output
+   */
+  setLevel(level: LogLevel): void {
+    this.minLevel = level;
+  }
+
+  /**
+   * Run a task with its log output held back instead of printed, so output of
+   * concurrent tasks can be printed one task at a time with flush()
+   */
+  async capture<T>(task: () => Promise<T>): Promise<{ result: T; output: CapturedLog }> {
+    const output: CapturedLog = [];
+    const result = await this.captureStorage.run(output, task);
+    return { result, output };
+  }
+
+  /**
+   * Run a task that is shared by captured tasks with its output printed right away,
+   * rather than held back as part of whichever task started it
+   */
+  uncaptured<T>(task: () => T): T {
+    return this.captureStorage.exit(task);
+  }
+
+  /**
+   * Print output held back by capture()
+   */
+  flush(output: CapturedLog): void {
+    for (const { stream, line } of output) {
+      this.write(stream, line);
+    }
+  }
+
+  private enabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.minLevel];
+  }
+
+  private write(stream: 'stdout' | 'stderr', line: string): void {
+    const captured = this.captureStorage.getStore();
+
+    if (captured) {
+      captured.push({ stream, line });
+    } else if (stream === 'stderr') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+
   private formatMessage(level: LogLevel, message: string, data?: Record<string, unknown>): string {
     const timestamp = new Date().toISOString();
     const dataStr = data ? ` ${JSON.stringify(data)}` : '';
@@ -18,18 +79,21 @@ class Logger {
   }
 
   debug(message: string, data?: Record<string, unknown>): void {
-    console.log(this.formatMessage('debug', message, data));
+    if (!this.enabled('debug')) return;
+    this.write('stdout', this.formatMessage('debug', message, data));
   }
 
   info(message: string, data?: Record<string, unknown>): void {
-    console.log(this.formatMessage('info', message, data));
+    if (!this.enabled('info')) return;
+    this.write('stdout', this.formatMessage('info', message, data));
   }
 
   warning(message: string, data?: Record<string, unknown>): void {
+    if (!this.enabled('warning')) return;
     if (this.isGitHubActions) {
-      console.log(`::warning::${message}`);
+      this.write('stdout', `::warning::${message}`);
     } else {
-      console.warn(this.formatMessage('warning', message, data));
+      this.write('stderr', this.formatMessage('warning', message, data));
     }
   }
 
@@ -39,29 +103,31 @@ class Logger {
       : error;
 
     if (this.isGitHubActions) {
-      console.log(`::error::${message}`);
+      this.write('stdout', `::error::${message}`);
       // Also log the error data as a regular log so we can see details
       if (errorData) {
-        console.log(this.formatMessage('error', 'Error details', errorData));
+        this.write('stdout', this.formatMessage('error', 'Error details', errorData));
       }
     } else {
-      console.error(this.formatMessage('error', message, errorData));
+      this.write('stderr', this.formatMessage('error', message, errorData));
     }
   }
 
   group(name: string): void {
+    if (!this.enabled('info')) return;
     if (this.isGitHubActions) {
-      console.log(`::group::${name}`);
+      this.write('stdout', `::group::${name}`);
     } else {
-      console.log(`\n=== ${name} ===`);
+      this.write('stdout', `\n=== ${name} ===`);
     }
   }
 
   endGroup(): void {
+    if (!this.enabled('info')) return;
     if (this.isGitHubActions) {
-      console.log('::endgroup::');
+      this.write('stdout', '::endgroup::');
     } else {
-      console.log('');
+      this.write('stdout', '');
     }
   }
 }
@@ -0,0 +1,156 @@
+/**
+ * Pattern-based note paths and filename collision handling
+ *
+ * Patterns are relative to the output directory and use {token} placeholders:
+ *   {yyyy} {MM} {dd}   year, month, day of the meeting start, in the note's timezone
+ *   {date}             yyyy-MM-dd
+ *   {week}             ISO week number (01-53)
+ *   {weekYear}         ISO week-numbering year, which {week} belongs to (2024-12-30 is 2025-W01)
+ *   {topic}            sanitized meeting title
+ *   {series}           Zoom meeting ID (shared by all occurrences of a recurring meeting)
+ *   {host}             sanitized host name (email local part)
+ *   {shortUuid}        short form of the meeting UUID
+ * Any other token is treated as a date-fns format string, e.g. {yyyy-MM-dd} or {HHmm}.
+ */
+
+import path from 'path';
+import { format } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { fileExists, readFile } from './filesystem.js';
+import { sanitizeTitle, extractShortUuid } from './sanitize.js';
+import { parseMarkdown } from '../generators/markdown.js';
+import { logger } from './logger.js';
+import type { MeetingMetadata, CollisionStrategy } from '../types/index.js';
+
+export const DEFAULT_PATH_PATTERN = '{yyyy}/{MM}/{dd}/{topic}-{shortUuid}.md';
+
+const MAX_SUFFIX = 100;
+
+/**
+ * Resolve a path pattern for a meeting into an absolute file path inside outputDir
+ */
+export function resolveNotePath(
+  pattern: string,
+  metadata: MeetingMetadata,
+  outputDir: string
+): string {
+  // Bucket by the meeting's local date, not the runner's
+  const startDate = new TZDate(new Date(metadata.startTime).getTime(), metadata.timezone || 'UTC');
+
+  const tokens: Record<string, string> = {
+    yyyy: format(startDate, 'yyyy'),
+    MM: format(startDate, 'MM'),
+    dd: format(startDate, 'dd'),
+    date: format(startDate, 'yyyy-MM-dd'),
+    week: format(startDate, 'II'),
+    weekYear: format(startDate, 'RRRR'),
+    topic: sanitizeTitle(metadata.title) || 'untitled',
+    series: sanitizeSegment(metadata.meetingId),
+    host: sanitizeTitle(metadata.host.split('@')[0]) || 'unknown',
+    shortUuid: extractShortUuid(metadata.uuid),
+  };
+
+  const relativePath = pattern.replace(/\{([^{}]+)\}/g, (_, token: string) => {
+    if (token in tokens) {
+      return tokens[token];
+    }
+
+    try {
+      return sanitizeSegment(format(startDate, token));
+    } catch {
+      throw new Error(`Unknown token {${token}} in path pattern: ${pattern}`);
+    }
+  });
+
+  const withExtension = path.extname(relativePath) ? relativePath : `${relativePath}.md`;
+  const filePath = path.resolve(outputDir, withExtension);
+
+  if (!filePath.startsWith(path.resolve(outputDir) + path.sep)) {
+    throw new Error(`Path pattern resolves outside the output directory: ${pattern}`);
+  }
+
+  return filePath;
+}
+
+/**
+ * Path of the companion metadata file for a note: notes/meeting.md -> notes/meeting.meta.json
+ */
+export function metaFilePath(notePath: string): string {
+  const { dir, name } = path.parse(notePath);
+  return path.join(dir, `${name}.meta.json`);
+}
+
+/**
+ * Decide where to write a note when its path is already taken.
+ * Returns null when the note should not be written.
+ * planned maps paths a dry run would have written to their meeting UUIDs, as they are not on disk.
+ */
+export async function resolveCollision(
+  filePath: string,
+  uuid: string,
+  strategy: CollisionStrategy,
+  planned: ReadonlyMap<string, string> = new Map()
+): Promise<string | null> {
+  const isTaken = (candidate: string) => planned.has(candidate) || fileExists(candidate);
+  const isSameMeeting = async (candidate: string) =>
+    planned.has(candidate) ? planned.get(candidate) === uuid : belongsToMeeting(candidate, uuid);
+
+  if (!isTaken(filePath)) {
+    return filePath;
+  }
+
+  // The same meeting was archived before (e.g. state was lost), never write it twice
+  if (await isSameMeeting(filePath)) {
+    logger.warning('Note for this meeting already exists, skipping', { filePath });
+    return null;
+  }
+
+  switch (strategy) {
+    case 'skip':
+      logger.warning('File already exists, skipping', { filePath });
+      return null;
+
+    case 'overwrite':
+      logger.warning('File already exists, overwriting', { filePath });
+      return filePath;
+
+    case 'suffix': {
+      const { dir, name, ext } = path.parse(filePath);
+
+      for (let i = 2; i <= MAX_SUFFIX; i++) {
+        const candidate = path.join(dir, `${name}-${i}${ext}`);
+
+        if (!isTaken(candidate)) {
+          logger.info('File already exists, writing with suffix', { filePath: candidate });
+          return candidate;
+        }
+
+        if (await isSameMeeting(candidate)) {
+          logger.warning('Note for this meeting already exists, skipping', { filePath: candidate });
+          return null;
+        }
+      }
+
+      throw new Error(`Too many notes share the path ${filePath}`);
+    }
+  }
+}
+
+/**
+ * Whether an existing note's frontmatter belongs to the given meeting
+ */
+async function belongsToMeeting(filePath: string, uuid: string): Promise<boolean> {
+  try {
+    const { frontmatter } = parseMarkdown(await readFile(filePath));
+    return frontmatter.uuid === uuid;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make a token value safe to use as (part of) a single path segment
+ */
+function sanitizeSegment(value: string): string {
+  return value.replace(/[/\\:*?"<>|]/g, '-').replace(/^\.+/, '');
+}
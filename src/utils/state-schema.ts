@@ -0,0 +1,118 @@
+/**
+ * State file schema, versioning and migrations
+ */
+
+import { z } from 'zod';
+import type { State } from '../types/index.js';
+
+/**
+ * Version written by this release. Bump it and add a migration when the state shape changes.
+ */
+export const STATE_VERSION = 1;
+
+type RawState = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns the next version's shape
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // Files written before versioning have no version field; the shape is otherwise unchanged
+  0: (state) => ({ ...state, version: 1 }),
+};
+
+const ProcessedRecordingSchema = z
+  .object({
+    uuid: z.string().min(1),
+    meetingId: z.string(),
+    processedAt: z.string(),
+    filePath: z.string().min(1),
+    hash: z.string(),
+    userId: z.string().optional(),
+    summaryModifiedAt: z.string().optional(),
+  })
+  .passthrough();
+
+const MeetingFailureSchema = z
+  .object({
+    uuid: z.string(),
+    topic: z.string(),
+    startTime: z.string(),
+    error: z.string(),
+    failedAt: z.string(),
+    userId: z.string().optional(),
+  })
+  .passthrough();
+
+const RetryEntrySchema = z
+  .object({
+    // Snapshot of the Zoom API response, only the fields used to retry are checked
+    meeting: z
+      .object({ uuid: z.string().min(1), topic: z.string(), start_time: z.string() })
+      .passthrough(),
+    userId: z.string().optional(),
+    reason: z.enum(['error', 'no-content', 'no-summary', 'media']),
+    attempts: z.number().int().min(0),
+    lastError: z.string(),
+    firstQueuedAt: z.string(),
+    lastAttemptAt: z.string(),
+    nextRetryAt: z.string().optional(),
+  })
+  .passthrough();
+
+const StateSchema = z
+  .object({
+    version: z.literal(STATE_VERSION),
+    lastFetchTimestamp: z.string().datetime({ offset: true }),
+    userCursors: z.record(z.string().datetime({ offset: true })).optional(),
+    processedRecordings: z.record(ProcessedRecordingSchema),
+    recentFailures: z.array(MeetingFailureSchema).optional(),
+    retryQueue: z.record(RetryEntrySchema).optional(),
+    statistics: z
+      .object({
+        totalMeetings: z.number().int().min(0),
+        lastRunStatus: z.enum(['success', 'failure', 'partial']),
+        lastRunAt: z.string(),
+        consecutiveFailures: z.number().int().min(0),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+/**
+ * Migrate parsed state file contents to the current version and validate them.
+ * Throws with a description of what is wrong; the caller adds the file path.
+ */
+export function parseState(data: unknown): State {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('state is not a JSON object');
+  }
+
+  let state = data as RawState;
+  const version = state.version ?? 0;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error(`invalid state version: ${JSON.stringify(version)}`);
+  }
+
+  if (version > STATE_VERSION) {
+    throw new Error(
+      `state version ${version} is newer than this release supports (${STATE_VERSION}), upgrade the archiver`
+    );
+  }
+
+  for (let from = version; from < STATE_VERSION; from++) {
+    state = MIGRATIONS[from](state);
+  }
+
+  const result = StateSchema.safeParse(state);
+
+  if (!result.success) {
+    const issues = result.error.errors
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`state does not match the expected schema: ${issues}`);
+  }
+
+  return result.data as State;
+}
@@ -0,0 +1,50 @@
+/**
+ * Timezone helpers for rendering meeting times in the meeting's (or a configured) zone
+ */
+
+import { TZDate } from '@date-fns/tz';
+import { format } from 'date-fns';
+
+/**
+ * Whether a string is a valid IANA timezone name (e.g. "Europe/London")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the first valid timezone, falling back to UTC
+ */
+export function resolveTimezone(...candidates: Array<string | undefined>): string {
+  return candidates.find((timezone) => timezone && isValidTimezone(timezone)) || 'UTC';
+}
+
+/**
+ * Format an ISO timestamp with a date-fns pattern in the given timezone
+ */
+export function formatInTimezone(isoTime: string, pattern: string, timezone = 'UTC'): string {
+  return format(new TZDate(new Date(isoTime).getTime(), timezone), pattern);
+}
+
+/**
+ * ISO 8601 timestamp with the timezone's UTC offset, e.g. 2024-03-10T01:30:00-08:00
+ */
+export function toIsoWithOffset(isoTime: string, timezone = 'UTC'): string {
+  return formatInTimezone(isoTime, "yyyy-MM-dd'T'HH:mm:ssXXX", timezone);
+}
+
+/**
+ * Short timezone name at a given time, e.g. "PDT", "UTC" or "GMT+1"
+ */
+export function timezoneAbbreviation(isoTime: string, timezone = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    timeZoneName: 'short',
+  }).formatToParts(new Date(isoTime));
+  return parts.find((part) => part.type === 'timeZoneName')?.value || timezone;
+}
@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { logger } from '../src/utils/logger.js';
+
+let workspaceDir: string;
+let lockFilePath: string;
+
+function run(...args: string[]): Promise<number> {
+  return runCli([...args, '--workspace-dir', workspaceDir, '--state-backend', 'file']);
+}
+
+/**
+ * Leave a lock behind as a run in this process would, so it is never stale
+ */
+async function holdLock(): Promise<void> {
+  await fs.writeFile(
+    lockFilePath,
+    JSON.stringify({ host: os.hostname(), pid: process.pid, acquiredAt: new Date().toISOString() })
+  );
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+  lockFilePath = path.join(workspaceDir, '.state.json.lock');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(workspaceDir, { recursive: true, force: true });
+});
+
+describe('runCli', () => {
+  it('prints usage and exits 2 for unknown options and commands', async () => {
+    expect(await runCli(['--no-such-flag'])).toBe(2);
+    expect(await runCli(['archive'])).toBe(2);
+    expect(console.error).toHaveBeenLastCalledWith(
+      expect.stringContaining('Unknown command: archive')
+    );
+    expect(console.error).toHaveBeenLastCalledWith(
+      expect.stringContaining('Usage: zoom-to-markdown')
+    );
+  });
+
+  it('prints usage and exits 0 for --help', async () => {
+    expect(await runCli(['status', '--help'])).toBe(0);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Commands:'));
+  });
+
+  it('passes flags to the command as config overrides', async () => {
+    expect(await run('rebuild-state')).toBe(0);
+    await fs.access(path.join(workspaceDir, '.state.json'));
+
+    expect(await run('rebuild-state', '--max-meetings', '0')).toBe(1);
+  });
+
+  it('takes the run lock for the command and releases it afterwards', async () => {
+    expect(await run('rebuild-state')).toBe(0);
+
+    await expect(fs.access(lockFilePath)).rejects.toThrow();
+  });
+
+  it('exits 75 without running when another run holds the lock', async () => {
+    await holdLock();
+
+    expect(await run('rebuild-state')).toBe(75);
+    await expect(fs.access(path.join(workspaceDir, '.state.json'))).rejects.toThrow();
+    // The other run's lock is left alone
+    await fs.access(lockFilePath);
+  });
+
+  it('runs read-only commands and dry runs while another run holds the lock', async () => {
+    await holdLock();
+
+    expect(await run('status', '--json')).toBe(0);
+    expect(await run('list')).toBe(0);
+    expect(await run('rebuild-state', '--dry-run')).toBe(0);
+  });
+});
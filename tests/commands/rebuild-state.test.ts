@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { rebuildStateCommand } from '../../src/commands/rebuild-state.js';
+import { logger } from '../../src/utils/logger.js';
+import type { ProcessedRecording, State } from '../../src/types/index.js';
+import {
+  createTestArchiver,
+  startMockZoom,
+  zoomMeeting,
+  zoomSummary,
+  type MockZoom,
+} from '../helpers/mock-zoom.js';
+
+const HAND_EDIT = '\n## My notes\n\nFollow up with legal.\n';
+
+let zoom: MockZoom;
+let workspaceDir: string;
+let stateFilePath: string;
+
+/**
+ * Archive a recent meeting with a summary, and return its record
+ */
+async function archiveMeeting(): Promise<ProcessedRecording> {
+  // Zoom times have whole seconds, like the frontmatter
+  const startTime = new Date(Math.floor(Date.now() / 1000) * 1000 - 2 * 3600 * 1000);
+  const meeting = zoomMeeting({ start_time: startTime.toISOString().replace('.000Z', 'Z') });
+  zoom.data.meetings.me = [meeting];
+  zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+
+  const { archiver, stateManager } = await createTestArchiver(zoom, workspaceDir);
+  await archiver.sync();
+  await stateManager.save();
+  return stateManager.getProcessedRecording(meeting.uuid)!;
+}
+
+async function rebuildState(): Promise<State> {
+  const exitCode = await rebuildStateCommand({
+    positionals: [],
+    values: {},
+    overrides: { workspaceDir, state: { backend: 'file' } },
+  });
+  expect(exitCode).toBe(0);
+  return JSON.parse(await fs.readFile(stateFilePath, 'utf-8'));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  zoom = await startMockZoom();
+  workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rebuild-state-'));
+  stateFilePath = path.join(workspaceDir, '.state.json');
+});
+
+afterEach(async () => {
+  await zoom.close();
+  await fs.rm(workspaceDir, { recursive: true, force: true });
+});
+
+describe('rebuild-state', () => {
+  it('records the notes on disk and moves the cursor to the newest one', async () => {
+    const archived = await archiveMeeting();
+    await fs.rm(stateFilePath);
+
+    const state = await rebuildState();
+
+    expect(state.processedRecordings[archived.uuid]).toMatchObject({
+      uuid: archived.uuid,
+      meetingId: archived.meetingId,
+      filePath: archived.filePath,
+    });
+    expect(new Date(state.lastFetchTimestamp)).toEqual(
+      new Date(zoom.data.meetings.me[0].start_time)
+    );
+    expect(state.statistics.totalMeetings).toBe(1);
+  });
+
+  it('leaves the hash unknown when there is no record of the note', async () => {
+    const archived = await archiveMeeting();
+    await fs.appendFile(archived.filePath, HAND_EDIT);
+    await fs.rm(stateFilePath);
+
+    const state = await rebuildState();
+
+    expect(state.processedRecordings[archived.uuid].hash).toBe('');
+
+    // The next update run regenerates the note, keeping the edit, and records its hash
+    const { archiver, stateManager } = await createTestArchiver(zoom, workspaceDir, {
+      updateExisting: true,
+    });
+    const { stats } = await archiver.sync();
+
+    expect(stats.updated).toBe(1);
+    expect(stateManager.getProcessedRecording(archived.uuid)?.hash).toBe(archived.hash);
+    expect(await fs.readFile(archived.filePath, 'utf-8')).toContain('Follow up with legal.');
+  });
+
+  it('keeps the hash and other fields of an existing record for the same note', async () => {
+    const archived = await archiveMeeting();
+    await fs.appendFile(archived.filePath, HAND_EDIT);
+
+    const state = await rebuildState();
+
+    expect(state.processedRecordings[archived.uuid]).toEqual(archived);
+  });
+
+  it('skips files without a meeting uuid', async () => {
+    await archiveMeeting();
+    const notesDir = path.join(workspaceDir, 'meeting-notes');
+    await fs.writeFile(path.join(notesDir, 'README.md'), '# Meeting notes\n');
+    await fs.writeFile(path.join(notesDir, 'draft.md'), '---\ntitle: Draft\n---\n');
+
+    const state = await rebuildState();
+
+    expect(Object.keys(state.processedRecordings)).toHaveLength(1);
+  });
+});
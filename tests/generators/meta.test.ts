@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { generateMeta } from '../../src/generators/meta.js';
+import type {
+  MeetingNote,
+  RecordingFile,
+  ZoomMeetingSummary,
+  ZoomRecording,
+} from '../../src/types/index.js';
+
+const NOTE: MeetingNote = {
+  metadata: {
+    title: 'Planning',
+    meetingId: '845',
+    uuid: 'abc==',
+    startTime: '2024-12-06T18:00:00Z',
+    duration: 1800,
+    host: 'sarah@example.com',
+    participants: ['sarah@example.com'],
+    recordingCount: 1,
+    transcriptAvailable: true,
+  },
+  transcript: { segments: [], rawText: '' },
+  actionItems: [],
+};
+
+function recordingFile(overrides: Partial<RecordingFile> = {}): RecordingFile {
+  return {
+    id: 'file-1',
+    meeting_id: 'abc==',
+    recording_start: '2024-12-06T18:00:05Z',
+    recording_end: '2024-12-06T18:29:55Z',
+    file_type: 'MP4',
+    file_extension: 'MP4',
+    file_size: 1048576,
+    download_url: 'https://zoom.us/rec/download/file-1?access_token=secret',
+    status: 'completed',
+    recording_type: 'shared_screen_with_speaker_view',
+    ...overrides,
+  };
+}
+
+function recording(files: RecordingFile[], shareUrl: string): ZoomRecording {
+  return {
+    uuid: 'abc==',
+    id: 845,
+    account_id: 'account',
+    host_id: 'host',
+    host_email: 'sarah@example.com',
+    topic: 'Planning',
+    start_time: '2024-12-06T18:00:00Z',
+    duration: 30,
+    total_size: 1048576,
+    recording_count: files.length,
+    share_url: shareUrl,
+    recording_files: files,
+  };
+}
+
+describe('generateMeta', () => {
+  it('lists the recording files without download URLs', () => {
+    const meta = JSON.parse(
+      generateMeta(NOTE, recording([recordingFile()], 'https://zoom.us/rec/share/abc'))
+    );
+
+    expect(meta).toEqual({
+      uuid: 'abc==',
+      meetingId: '845',
+      title: 'Planning',
+      startTime: '2024-12-06T18:00:00Z',
+      shareUrl: 'https://zoom.us/rec/share/abc',
+      recordingFiles: [
+        {
+          id: 'file-1',
+          type: 'MP4',
+          recordingType: 'shared_screen_with_speaker_view',
+          extension: 'MP4',
+          size: 1048576,
+          recordingStart: '2024-12-06T18:00:05Z',
+          recordingEnd: '2024-12-06T18:29:55Z',
+          status: 'completed',
+        },
+      ],
+    });
+  });
+
+  it('strips tokens and passcodes from every URL, keeping other parameters', () => {
+    const file = recordingFile({
+      play_url: 'https://zoom.us/rec/play/file-1?startTime=1733508005000&access_token=secret',
+    });
+    const summary = {
+      summary_doc_url: 'https://docs.zoom.us/doc/xyz?Signature=abc&Expires=1733508005',
+    } as ZoomMeetingSummary;
+
+    const content = generateMeta(
+      NOTE,
+      recording([file], 'https://zoom.us/rec/share/abc?pwd=hunter2&passcode=1234&lang=en'),
+      summary
+    );
+    const meta = JSON.parse(content);
+
+    expect(meta.shareUrl).toBe('https://zoom.us/rec/share/abc?lang=en');
+    expect(meta.summaryDocUrl).toBe('https://docs.zoom.us/doc/xyz?Expires=1733508005');
+    expect(meta.recordingFiles[0].playUrl).toBe(
+      'https://zoom.us/rec/play/file-1?startTime=1733508005000'
+    );
+    expect(content).not.toMatch(/secret|hunter2|1234|Signature/);
+  });
+
+  it('drops the query string of a URL it cannot parse', () => {
+    const meta = JSON.parse(generateMeta(NOTE, recording([], '/rec/share/abc?pwd=hunter2')));
+
+    expect(meta.shareUrl).toBe('/rec/share/abc');
+  });
+
+  it('is the same for an unchanged meeting, ending with a newline', () => {
+    const first = generateMeta(NOTE);
+
+    expect(generateMeta(NOTE)).toBe(first);
+    expect(first.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(first).recordingFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { generateMarkdown } from '../../src/generators/markdown.js';
+import { regionEnd, regionStart } from '../../src/generators/managed-regions.js';
+import {
+  loadTemplate,
+  renderTemplate,
+  type TemplateContext,
+} from '../../src/generators/template.js';
+import type { MeetingNote } from '../../src/types/index.js';
+
+function note(overrides: Partial<MeetingNote['metadata']> = {}): MeetingNote {
+  return {
+    metadata: {
+      title: 'Planning <Q1>',
+      meetingId: '845',
+      uuid: 'abc==',
+      startTime: '2024-03-10T17:30:00Z',
+      timezone: 'America/Los_Angeles',
+      duration: 3600,
+      host: 'sarah@example.com',
+      participants: ['Sarah@example.com', 'Mike'],
+      recordingCount: 1,
+      transcriptAvailable: false,
+      ...overrides,
+    },
+    transcript: { segments: [], rawText: '' },
+    actionItems: [
+      { text: 'Draft the plan', confidence: 0.5 },
+      { text: 'Book the room', assignee: 'Mike', confidence: 0.9 },
+    ],
+  };
+}
+
+/**
+ * Render a template against a note's context as built by generateMarkdown, without frontmatter
+ */
+function render(template: string, meetingNote = note()): string {
+  return generateMarkdown(meetingNote, { template })
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .trimEnd();
+}
+
+describe('renderTemplate helpers', () => {
+  it('formats dates in the note timezone, with yyyy-MM-dd by default', () => {
+    expect(
+      render('{{formatDate metadata.startTime}}|{{formatDate metadata.startTime "HH:mm"}}')
+    ).toBe('2024-03-10|10:30');
+    expect(render('{{formatDate metadata.startTime "HH:mm"}}', note({ timezone: undefined }))).toBe(
+      '17:30'
+    );
+    expect(render('[{{formatDate missing}}]')).toBe('[]');
+  });
+
+  it('converts durations and sizes', () => {
+    const context = {
+      seconds: 5399,
+      bytes: 5 * 1024 * 1024 + 100_000,
+    } as unknown as TemplateContext;
+
+    expect(renderTemplate('{{minutes seconds}} min, {{megabytes bytes}} MB', context)).toBe(
+      '90 min, 5.1 MB'
+    );
+  });
+
+  it('escapes Markdown table cells', () => {
+    const context = { name: 'A | B\nC' } as unknown as TemplateContext;
+
+    expect(renderTemplate('| {{escapeCell name}} |', context)).toBe('| A \\| B C |');
+  });
+
+  it('marks the host among participants, ignoring case', () => {
+    expect(
+      render('{{#each metadata.participants}}{{this}}{{#if (isHost this)}} (Host){{/if}};{{/each}}')
+    ).toBe('Sarah@example.com (Host);Mike;');
+  });
+
+  it('compares values with eq', () => {
+    expect(render('{{#if (eq transcriptMode "full")}}full{{else}}compact{{/if}}')).toBe('full');
+  });
+
+  it('wraps region blocks in managed region markers', () => {
+    expect(render('{{#region "header"}}# {{metadata.title}}\n{{/region}}')).toBe(
+      `${regionStart('header')}\n# Planning <Q1>\n${regionEnd('header')}`
+    );
+  });
+});
+
+describe('custom templates', () => {
+  it('receive the note context with values left unescaped', () => {
+    const body = render(
+      [
+        '# {{metadata.title}}',
+        '{{date}} {{time}} {{timezone}}, {{durationMinutes}} min',
+        '{{#each actionItems}}- {{text}}{{#if assignee}} ({{assignee}}){{/if}}',
+        '{{/each}}',
+      ].join('\n')
+    );
+
+    expect(body).toBe(
+      [
+        '# Planning <Q1>',
+        'March 10, 2024 10:30 AM PDT, 60 min',
+        '- Book the room (Mike)',
+        '- Draft the plan',
+      ].join('\n')
+    );
+  });
+
+  it('are loaded from a file and fail fast on syntax errors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-'));
+
+    try {
+      const valid = path.join(dir, 'note.md.hbs');
+      await fs.writeFile(valid, '# {{metadata.title}}\n');
+      expect(await loadTemplate(valid)).toBe('# {{metadata.title}}\n');
+
+      const broken = path.join(dir, 'broken.md.hbs');
+      await fs.writeFile(broken, '{{#each actionItems}}- {{text}}\n');
+      await expect(loadTemplate(broken)).rejects.toThrow(
+        `Failed to load template ${broken}: Parse error`
+      );
+
+      await expect(loadTemplate(path.join(dir, 'missing.hbs'))).rejects.toThrow(
+        /Failed to load template .*missing\.hbs/
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Local HTTP server for tests that exercise real requests
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockServer {
+  url: string; // Base URL, without a trailing slash
+  requests: IncomingMessage[];
+  close(): Promise<void>;
+}
+
+export type MockHandler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+/**
+ * Start a server on a free local port that answers every request with the handler
+ */
+export async function startMockServer(handler: MockHandler): Promise<MockServer> {
+  const requests: IncomingMessage[] = [];
+
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    Promise.resolve(handler(req, res)).catch((error: Error) => {
+      res.statusCode = 500;
+      res.end(error.message);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,272 @@
+/**
+ * Mock Zoom API with editable meetings, summaries, recordings and participant reports,
+ * and an archiver wired to it with state in a temporary workspace
+ */
+
+import { MeetingArchiver } from '../../src/services/archiver.js';
+import { StateManager } from '../../src/services/state-manager.js';
+import { createStateStorage } from '../../src/services/state-storage/index.js';
+import { ZoomApiClient } from '../../src/services/zoom-api.js';
+import { loadConfig } from '../../src/utils/config.js';
+import type {
+  Config,
+  ConfigOverrides,
+  ZoomMeeting,
+  ZoomMeetingSummary,
+  ZoomParticipant,
+  ZoomRecording,
+  ZoomUser,
+} from '../../src/types/index.js';
+import { sendJson, startMockServer, type MockServer } from './mock-server.js';
+
+export interface ZoomData {
+  meetings: Record<string, ZoomMeeting[]>; // Reports API meetings by user ID ("me" by default)
+  summaries: Record<string, ZoomMeetingSummary>; // By meeting UUID
+  recordings: Record<string, ZoomRecording[]>; // By user ID
+  participants: Record<string, ZoomParticipant[]>; // By meeting UUID
+  files: Record<string, string>; // Downloads by path, e.g. "/files/transcript.vtt"
+  users: ZoomUser[];
+  groups: Record<string, ZoomUser[]>;
+  failures: Record<string, number>; // Status to answer instead, by decoded path without /v2
+}
+
+export interface MockZoom extends MockServer {
+  data: ZoomData;
+  hits(path: string): number; // API requests to a decoded path without /v2, query ignored
+}
+
+/**
+ * Start a mock Zoom API. Meetings are listed when their start date is in the requested range.
+ */
+export async function startMockZoom(data: Partial<ZoomData> = {}): Promise<MockZoom> {
+  const zoom: ZoomData = {
+    meetings: {},
+    summaries: {},
+    recordings: {},
+    participants: {},
+    files: {},
+    users: [],
+    groups: {},
+    failures: {},
+    ...data,
+  };
+  const paths: string[] = [];
+
+  const server = await startMockServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname.startsWith('/oauth')) {
+      sendJson(res, 200, { access_token: 'token', expires_in: 3600 });
+      return;
+    }
+
+    if (url.pathname.startsWith('/files/')) {
+      const file = zoom.files[url.pathname];
+      res.writeHead(file === undefined ? 404 : 200).end(file);
+      return;
+    }
+
+    // Meeting UUIDs are double-encoded in paths
+    const segments = url.pathname
+      .replace(/^\/v2\//, '')
+      .split('/')
+      .map((segment) => decodeURIComponent(decodeURIComponent(segment)));
+    paths.push(`/${segments.join('/')}`);
+
+    const failure = zoom.failures[`/${segments.join('/')}`];
+    if (failure) {
+      sendJson(res, failure, { code: failure, message: 'Mock failure' });
+      return;
+    }
+
+    const [status, body] = route(zoom, segments, url.searchParams);
+    sendJson(res, status, body);
+  });
+
+  return {
+    ...server,
+    data: zoom,
+    hits: (path) => paths.filter((requested) => requested === path).length,
+  };
+}
+
+/**
+ * Answer an API request from the mock data
+ */
+function route(zoom: ZoomData, segments: string[], query: URLSearchParams): [number, unknown] {
+  const inRange = (start: string) =>
+    start.slice(0, 10) >= (query.get('from') ?? '') &&
+    start.slice(0, 10) <= (query.get('to') ?? '~');
+  const notFound: [number, unknown] = [404, { code: 3001, message: 'Not found' }];
+
+  switch (true) {
+    case segments[0] === 'report' && segments[1] === 'users': {
+      const meetings = (zoom.meetings[segments[2]] ?? []).filter((m) => inRange(m.start_time));
+      return [200, { meetings }];
+    }
+    case segments[0] === 'report' && segments[1] === 'meetings': {
+      const participants = zoom.participants[segments[2]];
+      return participants ? [200, { participants }] : notFound;
+    }
+    case segments[0] === 'meetings' && segments[2] === 'meeting_summary': {
+      const summary = zoom.summaries[segments[1]];
+      return summary ? [200, summary] : notFound;
+    }
+    case segments[0] === 'past_meetings': {
+      const meeting = Object.values(zoom.meetings)
+        .flat()
+        .find((m) => m.uuid === segments[1]);
+      return meeting ? [200, meeting] : notFound;
+    }
+    case segments[0] === 'users' && segments[2] === 'recordings': {
+      const meetings = (zoom.recordings[segments[1]] ?? []).filter((r) => inRange(r.start_time));
+      return [200, { meetings, total_records: meetings.length }];
+    }
+    case segments[0] === 'users' && segments.length === 1:
+      return [200, { users: zoom.users }];
+    case segments[0] === 'groups': {
+      const members = zoom.groups[segments[1]];
+      return members ? [200, { members }] : notFound;
+    }
+    default:
+      return notFound;
+  }
+}
+
+/**
+ * Config for a run against the mock API, writing to workspaceDir
+ */
+export function testConfig(
+  zoom: MockZoom,
+  workspaceDir: string,
+  overrides: ConfigOverrides = {}
+): Config {
+  return loadConfig(
+    {
+      workspaceDir,
+      timeBudgetMinutes: 0,
+      concurrency: 1,
+      ...overrides,
+      zoom: {
+        accountId: 'account',
+        clientId: 'client',
+        clientSecret: 'secret',
+        userId: 'me',
+        apiBaseUrl: `${zoom.url}/v2`,
+        oauthUrl: `${zoom.url}/oauth/token`,
+        ...overrides.zoom,
+      },
+      state: { backend: 'file', ...overrides.state },
+      http: { maxAttempts: 1, baseDelayMs: 0, jitter: 0, ...overrides.http },
+    },
+    { requireCredentials: false }
+  );
+}
+
+/**
+ * An archiver for one run against the mock API, with its state loaded from the workspace
+ */
+export async function createTestArchiver(
+  zoom: MockZoom,
+  workspaceDir: string,
+  overrides: ConfigOverrides = {}
+): Promise<{ archiver: MeetingArchiver; stateManager: StateManager; config: Config }> {
+  const config = testConfig(zoom, workspaceDir, overrides);
+  const stateManager = new StateManager(createStateStorage(config));
+  await stateManager.load();
+
+  const zoomClient = new ZoomApiClient(config.zoom, config.http);
+  return { archiver: new MeetingArchiver(zoomClient, stateManager, config), stateManager, config };
+}
+
+/**
+ * A past meeting as listed by the Reports API
+ */
+export function zoomMeeting(overrides: Partial<ZoomMeeting> = {}): ZoomMeeting {
+  return {
+    uuid: 'aDYlohsHRtCd4ii1uC2+hA==',
+    id: 84512345678,
+    host_id: 'host',
+    topic: 'Sprint Planning',
+    type: 2,
+    start_time: '2024-12-06T18:00:00Z',
+    duration: 30,
+    timezone: 'UTC',
+    user_name: 'Sarah Chen',
+    user_email: 'sarah.chen@example.com',
+    ...overrides,
+  };
+}
+
+/**
+ * An AI Companion summary for a meeting
+ */
+export function zoomSummary(
+  meeting: ZoomMeeting,
+  overrides: Partial<ZoomMeetingSummary> = {}
+): ZoomMeetingSummary {
+  return {
+    meeting_host_id: meeting.host_id,
+    meeting_host_email: meeting.user_email,
+    meeting_uuid: meeting.uuid,
+    meeting_id: meeting.id,
+    meeting_topic: meeting.topic,
+    meeting_start_time: meeting.start_time,
+    meeting_end_time: meeting.start_time,
+    summary_start_time: meeting.start_time,
+    summary_end_time: meeting.start_time,
+    summary_created_time: meeting.start_time,
+    summary_last_modified_time: meeting.start_time,
+    summary_title: meeting.topic,
+    summary_overview: 'We planned the sprint.',
+    summary_details: [{ label: 'Scope', summary: 'Ship the importer first.' }],
+    next_steps: ['Sarah to write the release notes'],
+    summary_content: '',
+    summary_doc_url: '',
+    ...overrides,
+  };
+}
+
+/**
+ * A cloud recording with a transcript (and optionally a chat) served by the mock API
+ */
+export function zoomRecording(
+  zoom: MockZoom,
+  meeting: ZoomMeeting,
+  files: { transcript?: string; chat?: string } = {}
+): ZoomRecording {
+  const recordingFiles: ZoomRecording['recording_files'] = [];
+  const key = meeting.uuid.replace(/[^A-Za-z0-9]/g, '');
+
+  for (const [kind, content] of Object.entries(files)) {
+    const path = `/files/${key}-${kind}`;
+    zoom.data.files[path] = content;
+    recordingFiles.push({
+      id: `${key}-${kind}`,
+      meeting_id: meeting.uuid,
+      recording_start: meeting.start_time,
+      recording_end: meeting.start_time,
+      file_type: kind === 'transcript' ? 'TRANSCRIPT' : 'CHAT',
+      file_extension: kind === 'transcript' ? 'VTT' : 'TXT',
+      file_size: content.length,
+      download_url: `${zoom.url}${path}`,
+      status: 'completed',
+      recording_type: kind === 'transcript' ? 'audio_transcript' : 'chat_file',
+    });
+  }
+
+  return {
+    uuid: meeting.uuid,
+    id: meeting.id,
+    account_id: 'account',
+    host_id: meeting.host_id,
+    host_email: meeting.user_email,
+    topic: meeting.topic,
+    start_time: meeting.start_time,
+    duration: meeting.duration,
+    total_size: 0,
+    recording_count: recordingFiles.length,
+    share_url: '',
+    recording_files: recordingFiles,
+  };
+}
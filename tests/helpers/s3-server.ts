@@ -0,0 +1,149 @@
+/**
+ * MinIO-style S3 stand-in: path-style buckets, HEAD and PUT of objects, SigV4
+ * signatures and payload checksums checked the way S3 checks them
+ */
+
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { startMockServer, type MockServer } from './mock-server.js';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface StoredObject {
+  body: Buffer;
+  headers: Record<string, string>; // content-type and x-amz-meta-* headers sent with the PUT
+}
+
+export interface S3Server extends MockServer {
+  objects: Map<string, StoredObject>; // Keyed by decoded path, "/bucket/key"
+}
+
+const AUTHORIZATION =
+  /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/;
+
+/**
+ * Start an S3 stand-in that accepts requests signed with the given credentials
+ */
+export async function startS3Server(credentials: S3Credentials): Promise<S3Server> {
+  const objects = new Map<string, StoredObject>();
+
+  const server = await startMockServer(async (req, res) => {
+    const body = await readBody(req);
+    const error = checkRequest(req, body, credentials);
+
+    if (error) {
+      sendError(res, error.status, error.code);
+      return;
+    }
+
+    const key = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+
+    if (req.method === 'HEAD') {
+      const object = objects.get(key);
+      if (!object) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { ...object.headers, 'content-length': object.body.length }).end();
+      return;
+    }
+
+    if (req.method === 'PUT') {
+      const headers = Object.fromEntries(
+        Object.entries(req.headers)
+          .filter(([name]) => name === 'content-type' || name.startsWith('x-amz-meta-'))
+          .map(([name, value]) => [name, String(value)])
+      );
+      objects.set(key, { body, headers });
+      res.writeHead(200).end();
+      return;
+    }
+
+    sendError(res, 405, 'MethodNotAllowed');
+  });
+
+  return { ...server, objects };
+}
+
+/**
+ * Verify the signature and payload checksum. Returns the S3 error for a bad request.
+ */
+function checkRequest(
+  req: IncomingMessage,
+  body: Buffer,
+  credentials: S3Credentials
+): { status: number; code: string } | undefined {
+  const match = String(req.headers.authorization ?? '').match(AUTHORIZATION);
+  if (!match) {
+    return { status: 403, code: 'AccessDenied' };
+  }
+
+  const [, accessKeyId, date, region, signedHeaders, signature] = match;
+  if (accessKeyId !== credentials.accessKeyId || region !== credentials.region) {
+    return { status: 403, code: 'InvalidAccessKeyId' };
+  }
+
+  const payloadHash = String(req.headers['x-amz-content-sha256'] ?? '');
+  if (payloadHash !== sha256(body)) {
+    return { status: 400, code: 'XAmzContentSHA256Mismatch' };
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const names = signedHeaders.split(';');
+  if (!names.includes('host') || !names.includes('x-amz-date')) {
+    return { status: 403, code: 'AccessDenied' };
+  }
+
+  const canonicalRequest = [
+    req.method,
+    url.pathname,
+    [...url.searchParams.entries()]
+      .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+      .sort()
+      .join('&'),
+    ...names.map((name) => `${name}:${String(req.headers[name] ?? '').trim()}`),
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const amzDate = String(req.headers['x-amz-date']);
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  let key: Buffer = hmac(`AWS4${credentials.secretAccessKey}`, date);
+  for (const part of [region, 's3', 'aws4_request']) {
+    key = hmac(key, part);
+  }
+
+  if (hmac(key, stringToSign).toString('hex') !== signature) {
+    return { status: 403, code: 'SignatureDoesNotMatch' };
+  }
+
+  return undefined;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendError(res: ServerResponse, status: number, code: string): void {
+  res.writeHead(status, { 'content-type': 'application/xml' });
+  res.end(`<Error><Code>${code}</Code></Error>`);
+}
+
+function sha256(value: string | Buffer): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
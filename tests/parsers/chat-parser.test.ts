@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseChat } from '../../src/parsers/chat-parser.js';
+import { logger } from '../../src/utils/logger.js';
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+describe('parseChat', () => {
+  it('reads messages with the text on the header line or on indented lines below it', () => {
+    const { messages } = parseChat(
+      [
+        '\uFEFF00:01:05 From Jane Doe to Everyone: Morning all',
+        '00:02:10 From Bob Smith to Everyone:',
+        '\tAgenda is in the doc',
+        '\tsee section 2',
+        '0:03:00\t From  Ana Ruiz : Older export format',
+      ].join('\r\n')
+    );
+
+    expect(messages).toEqual([
+      { timestamp: '00:01:05', sender: 'Jane Doe', recipient: undefined, text: 'Morning all' },
+      {
+        timestamp: '00:02:10',
+        sender: 'Bob Smith',
+        recipient: undefined,
+        text: 'Agenda is in the doc\nsee section 2',
+      },
+      {
+        timestamp: '00:03:00',
+        sender: 'Ana Ruiz',
+        recipient: undefined,
+        text: 'Older export format',
+      },
+    ]);
+  });
+
+  it('leaves out direct messages', () => {
+    const { messages } = parseChat(
+      [
+        '00:01:00 From Jane Doe to Everyone (in Waiting Room): Starting soon',
+        '00:01:30 From Jane Doe to Bob Smith(Direct Message): Can you take notes?',
+      ].join('\n')
+    );
+
+    expect(messages.map((message) => message.text)).toEqual(['Starting soon']);
+  });
+
+  it('attaches threaded replies to the message they quote', () => {
+    const { messages } = parseChat(
+      [
+        '00:01:00 From Jane Doe to Everyone:',
+        '\tShould we move the launch to Friday?',
+        '00:01:20 From Bob Smith to Everyone:',
+        '\tReplying to "Should we move the laun..."',
+        '\tFriday works for me',
+      ].join('\n')
+    );
+
+    expect(messages[1]).toMatchObject({
+      sender: 'Bob Smith',
+      text: 'Friday works for me',
+      replyTo: 'Should we move the laun',
+    });
+  });
+
+  it('collects reactions on the quoted message and drops removed ones', () => {
+    const { messages } = parseChat(
+      [
+        '00:01:00 From Jane Doe to Everyone: We shipped the importer',
+        '00:01:05 From Bob Smith to Everyone: Reacted to "We shipped the imp..." with 🎉',
+        '00:01:06 From Ana Ruiz to Everyone: Reacted to "We shipped the imp..." with 🎉',
+        '00:01:07 From Ana Ruiz to Everyone: Reacted to "We shipped the imp..." with 👍',
+        '00:01:09 From Ana Ruiz to Everyone: Removed a 👍 reaction from "We shipped the imp..."',
+        '00:01:10 From Ana Ruiz to Everyone: Reacted to "A message that is gone" with 👍',
+      ].join('\n')
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].reactions).toEqual([{ emoji: '🎉', senders: ['Bob Smith', 'Ana Ruiz'] }]);
+  });
+
+  it('lists every shared link once, without trailing punctuation', () => {
+    const { links } = parseChat(
+      [
+        '00:01:00 From Jane Doe to Everyone: Spec is at https://example.com/spec.',
+        '00:02:00 From Bob Smith to Everyone: (https://example.com/spec) and https://example.com/board',
+      ].join('\n')
+    );
+
+    expect(links).toEqual([
+      { url: 'https://example.com/spec', sender: 'Jane Doe', timestamp: '00:01:00' },
+      { url: 'https://example.com/board', sender: 'Bob Smith', timestamp: '00:02:00' },
+    ]);
+  });
+});
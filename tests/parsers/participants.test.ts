@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { applyAttendance, dedupeParticipants } from '../../src/parsers/participants.js';
+import type { MeetingNote, ZoomParticipant } from '../../src/types/index.js';
+
+function session(
+  name: string,
+  join: string,
+  leave: string,
+  extra: Partial<ZoomParticipant> = {}
+): ZoomParticipant {
+  const duration = (new Date(leave).getTime() - new Date(join).getTime()) / 1000;
+  return { name, join_time: join, leave_time: leave, duration, ...extra };
+}
+
+function note(host: string): MeetingNote {
+  return {
+    metadata: {
+      title: 'Planning',
+      meetingId: '845',
+      uuid: 'abc==',
+      startTime: '2024-12-06T18:00:00Z',
+      duration: 3600,
+      host,
+      participants: [host],
+      recordingCount: 0,
+      transcriptAvailable: false,
+    },
+    transcript: { segments: [], rawText: '' },
+    actionItems: [],
+  };
+}
+
+describe('dedupeParticipants', () => {
+  it('merges rejoins of one person by email', () => {
+    const attendance = dedupeParticipants([
+      session('Jane', '2024-12-06T18:00:00Z', '2024-12-06T18:10:00Z', {
+        user_email: 'Jane@Example.com',
+      }),
+      session('Bob', '2024-12-06T18:02:00Z', '2024-12-06T18:30:00Z'),
+      session('Jane Doe', '2024-12-06T18:15:00Z', '2024-12-06T18:45:00Z', {
+        user_email: 'jane@example.com',
+      }),
+    ]);
+
+    expect(attendance).toEqual([
+      {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        joinTime: '2024-12-06T18:00:00.000Z',
+        leaveTime: '2024-12-06T18:45:00.000Z',
+        duration: 40 * 60,
+      },
+      {
+        name: 'Bob',
+        email: undefined,
+        joinTime: '2024-12-06T18:02:00.000Z',
+        leaveTime: '2024-12-06T18:30:00.000Z',
+        duration: 28 * 60,
+      },
+    ]);
+  });
+
+  it('counts time on two devices at once only once', () => {
+    const [jane] = dedupeParticipants([
+      session('Jane (laptop)', '2024-12-06T18:00:00Z', '2024-12-06T18:30:00Z', { id: 'u1' }),
+      session('Jane (phone)', '2024-12-06T18:20:00Z', '2024-12-06T18:40:00Z', { id: 'u1' }),
+    ]);
+
+    expect(jane).toMatchObject({ name: 'Jane (phone)', duration: 40 * 60 });
+  });
+
+  it('groups guests without an email or user ID by name', () => {
+    const attendance = dedupeParticipants([
+      session('Guest', '2024-12-06T18:00:00Z', '2024-12-06T18:05:00Z'),
+      session(' guest ', '2024-12-06T18:10:00Z', '2024-12-06T18:15:00Z'),
+    ]);
+
+    expect(attendance).toHaveLength(1);
+    expect(attendance[0].duration).toBe(10 * 60);
+  });
+});
+
+describe('applyAttendance', () => {
+  const attendance = dedupeParticipants([
+    session('Sarah', '2024-12-06T18:00:00Z', '2024-12-06T19:00:00Z', {
+      user_email: 'sarah@example.com',
+    }),
+    session('Mike', '2024-12-06T18:00:00Z', '2024-12-06T19:00:00Z'),
+  ]);
+
+  it('replaces the participant list with the attendees', () => {
+    const { metadata } = applyAttendance(note('sarah@example.com'), attendance);
+
+    expect(metadata.participants).toEqual(['sarah@example.com', 'Mike']);
+    expect(metadata.attendance).toBe(attendance);
+  });
+
+  it('keeps the host when the host is not in the report', () => {
+    const { metadata } = applyAttendance(note('host@example.com'), attendance);
+
+    expect(metadata.participants).toEqual(['host@example.com', 'sarah@example.com', 'Mike']);
+  });
+});
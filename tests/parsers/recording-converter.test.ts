@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertRecordingToMeetingNote,
+  findTranscriptFile,
+  mergeTranscriptIntoNote,
+} from '../../src/parsers/recording-converter.js';
+import type {
+  MeetingNote,
+  ParsedTranscript,
+  RecordingFile,
+  ZoomRecording,
+} from '../../src/types/index.js';
+
+const TRANSCRIPT: ParsedTranscript = {
+  segments: [
+    { speaker: 'Sarah Chen', timestamp: '00:00:01', text: 'We shipped the importer.' },
+    {
+      speaker: 'Mike Ross',
+      timestamp: '00:00:05',
+      text: 'I will write the release notes by Friday.',
+    },
+  ],
+  rawText: 'We shipped the importer. I will write the release notes by Friday.',
+};
+
+function recordingFile(overrides: Partial<RecordingFile> = {}): RecordingFile {
+  return {
+    id: 'file-1',
+    meeting_id: 'abc==',
+    recording_start: '2024-12-06T18:00:05Z',
+    recording_end: '2024-12-06T18:29:55Z',
+    file_type: 'TRANSCRIPT',
+    file_extension: 'VTT',
+    file_size: 2048,
+    download_url: 'https://zoom.us/rec/download/file-1',
+    status: 'completed',
+    recording_type: 'audio_transcript',
+    ...overrides,
+  };
+}
+
+function recording(files: RecordingFile[]): ZoomRecording {
+  return {
+    uuid: 'abc==',
+    id: 845,
+    account_id: 'account',
+    host_id: 'host',
+    host_email: 'sarah.chen@example.com',
+    topic: 'Sprint Planning',
+    start_time: '2024-12-06T18:00:00Z',
+    duration: 30,
+    total_size: 2048,
+    recording_count: files.length,
+    share_url: 'https://zoom.us/rec/share/abc',
+    recording_files: files,
+  };
+}
+
+describe('findTranscriptFile', () => {
+  it('finds the completed transcript among the recording files', () => {
+    const transcript = recordingFile({ id: 'transcript' });
+
+    expect(
+      findTranscriptFile(
+        recording([
+          recordingFile({ id: 'video', file_type: 'MP4', file_extension: 'MP4' }),
+          recordingFile({ id: 'processing', status: 'processing' }),
+          transcript,
+        ])
+      )
+    ).toBe(transcript);
+    expect(findTranscriptFile(recording([recordingFile({ status: 'processing' })]))).toBe(
+      undefined
+    );
+  });
+});
+
+describe('convertRecordingToMeetingNote', () => {
+  it('builds the note from the recording and its transcript', () => {
+    const note = convertRecordingToMeetingNote(recording([recordingFile()]), TRANSCRIPT);
+
+    expect(note.metadata).toMatchObject({
+      title: 'Sprint Planning',
+      meetingId: '845',
+      uuid: 'abc==',
+      startTime: '2024-12-06T18:00:00Z',
+      duration: 1800,
+      host: 'sarah.chen@example.com',
+      recordingCount: 1,
+      transcriptAvailable: true,
+    });
+    expect(note.transcript).toBe(TRANSCRIPT);
+  });
+
+  it('extracts action items from the transcript unless disabled', () => {
+    const withItems = convertRecordingToMeetingNote(recording([]), TRANSCRIPT);
+    const withoutItems = convertRecordingToMeetingNote(recording([]), TRANSCRIPT, {
+      enableActionItemExtraction: false,
+    });
+
+    expect(withItems.actionItems.map((item) => item.text)).toContain(
+      'I will write the release notes by Friday.'
+    );
+    expect(withoutItems.actionItems).toEqual([]);
+  });
+});
+
+describe('mergeTranscriptIntoNote', () => {
+  const summaryNote: MeetingNote = {
+    metadata: {
+      title: 'Sprint Planning',
+      meetingId: '845',
+      uuid: 'abc==',
+      startTime: '2024-12-06T18:00:00Z',
+      duration: 1800,
+      host: 'sarah.chen@example.com',
+      participants: ['sarah.chen@example.com'],
+      recordingCount: 0,
+      transcriptAvailable: false,
+    },
+    summary: {
+      overview: 'We planned the sprint.',
+      sections: [{ label: 'Scope', summary: 'Ship the importer first.' }],
+    },
+    transcript: { segments: [], rawText: '' },
+    actionItems: [{ text: 'Sarah to write the release notes', confidence: 0.95 }],
+  };
+
+  it('keeps the summary and its next steps and adds the transcript', () => {
+    const merged = mergeTranscriptIntoNote(summaryNote, recording([recordingFile()]), TRANSCRIPT);
+
+    expect(merged.summary).toBe(summaryNote.summary);
+    expect(merged.actionItems).toBe(summaryNote.actionItems);
+    expect(merged.transcript).toBe(TRANSCRIPT);
+    expect(merged.metadata).toMatchObject({ recordingCount: 1, transcriptAvailable: true });
+  });
+
+  it('leaves the transcript unavailable when the recording transcript is empty', () => {
+    const merged = mergeTranscriptIntoNote(summaryNote, recording([recordingFile()]), {
+      segments: [],
+      rawText: '',
+    });
+
+    expect(merged.metadata.transcriptAvailable).toBe(false);
+  });
+});
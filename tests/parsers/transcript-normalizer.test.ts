@@ -0,0 +1,126 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  mergeSegments,
+  normalizeTranscript,
+  removeFillerWords,
+} from '../../src/parsers/transcript-normalizer.js';
+import { logger } from '../../src/utils/logger.js';
+import type { ParsedTranscript, TranscriptSegment } from '../../src/types/index.js';
+
+function transcript(...segments: TranscriptSegment[]): ParsedTranscript {
+  return { segments, rawText: segments.map((s) => s.text).join(' ') };
+}
+
+function segment(
+  speaker: string,
+  timestamp: string,
+  endTimestamp: string,
+  text: string
+): TranscriptSegment {
+  return { speaker, timestamp, endTimestamp, text };
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+describe('mergeSegments', () => {
+  it('merges consecutive turns of one speaker within the gap into a paragraph', () => {
+    const merged = mergeSegments(
+      transcript(
+        segment('Jane', '00:00:01', '00:00:04', 'We shipped the importer.'),
+        segment('Jane', '00:00:06', '00:00:09', 'It took two sprints.'),
+        segment('Bob', '00:00:10', '00:00:12', 'Nice.'),
+        segment('Jane', '00:00:13', '00:00:15', 'Next is export.')
+      ),
+      5
+    );
+
+    expect(merged.segments).toEqual([
+      segment('Jane', '00:00:01', '00:00:09', 'We shipped the importer. It took two sprints.'),
+      segment('Bob', '00:00:10', '00:00:12', 'Nice.'),
+      segment('Jane', '00:00:13', '00:00:15', 'Next is export.'),
+    ]);
+    expect(merged.rawText).toBe(
+      'We shipped the importer. It took two sprints. Nice. Next is export.'
+    );
+  });
+
+  it('starts a new paragraph after a longer pause', () => {
+    const merged = mergeSegments(
+      transcript(
+        segment('Jane', '00:00:01', '00:00:04', 'First point.'),
+        segment('Jane', '00:01:04', '00:01:08', 'Much later.')
+      ),
+      30
+    );
+
+    expect(merged.segments).toHaveLength(2);
+  });
+
+  it('does not change the transcript it was given', () => {
+    const original = transcript(
+      segment('Jane', '00:00:01', '00:00:02', 'One.'),
+      segment('Jane', '00:00:03', '00:00:04', 'Two.')
+    );
+
+    mergeSegments(original, 5);
+
+    expect(original.segments.map((s) => s.text)).toEqual(['One.', 'Two.']);
+  });
+});
+
+describe('removeFillerWords', () => {
+  it('drops hesitations and repeated words, keeping sentences capitalized', () => {
+    const cleaned = removeFillerWords(
+      transcript(
+        segment('Jane', '00:00:01', '00:00:04', 'Um, so we, uh, shipped the the importer.'),
+        segment('Bob', '00:00:05', '00:00:06', 'I I think ermm it works… hmm'),
+        segment('Ana', '00:00:07', '00:00:08', 'Umbrella drinks are on hold.')
+      )
+    );
+
+    expect(cleaned.segments.map((s) => s.text)).toEqual([
+      'So we, shipped the importer.',
+      'I think it works…',
+      'Umbrella drinks are on hold.',
+    ]);
+  });
+
+  it('drops segments that held only fillers', () => {
+    const cleaned = removeFillerWords(
+      transcript(
+        segment('Jane', '00:00:01', '00:00:02', 'Hmm.'),
+        segment('Bob', '00:00:03', '00:00:04', 'Uh, um…'),
+        segment('Jane', '00:00:05', '00:00:06', 'Okay.')
+      )
+    );
+
+    expect(cleaned.segments.map((s) => s.text)).toEqual(['Okay.']);
+  });
+});
+
+describe('normalizeTranscript', () => {
+  const input = transcript(
+    segment('Jane', '00:00:01', '00:00:02', 'Um, hello.'),
+    segment('Jane', '00:00:03', '00:00:04', 'Let us start.')
+  );
+
+  it('leaves the full transcript as parsed by default', () => {
+    expect(
+      normalizeTranscript(input, { mode: 'full', mergeGapSeconds: 5, removeFillers: false })
+    ).toBe(input);
+  });
+
+  it('removes fillers before merging in compact mode', () => {
+    const normalized = normalizeTranscript(input, {
+      mode: 'compact',
+      mergeGapSeconds: 5,
+      removeFillers: true,
+    });
+
+    expect(normalized.segments).toEqual([
+      segment('Jane', '00:00:01', '00:00:04', 'Hello. Let us start.'),
+    ]);
+  });
+});
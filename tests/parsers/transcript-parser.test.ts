@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { parseSRT, parseTranscript, parseVTT } from '../../src/parsers/transcript-parser.js';
+import { parseSpeakerAliases } from '../../src/parsers/speaker-aliases.js';
+
+/**
+ * Build a WebVTT transcript with one cue per payload, five seconds apart
+ */
+function vtt(...payloads: string[]): string {
+  const cues = payloads.map((payload, index) => {
+    const start = String(index * 5).padStart(2, '0');
+    const end = String(index * 5 + 5).padStart(2, '0');
+    return `${index + 1}\n00:00:${start}.000 --> 00:00:${end}.000\n${payload}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n');
+}
+
+function speakers(content: string, knownSpeakers: string[] = []): string[] {
+  return parseVTT(content, knownSpeakers).segments.map((segment) => segment.speaker);
+}
+
+describe('parseVTT', () => {
+  it('takes speakers from Name: prefixes that repeat across cues', () => {
+    const { segments } = parseVTT(
+      vtt('Jane Doe: Morning everyone', 'Bob Smith: Hi Jane', 'Jane Doe: Let us start')
+    );
+
+    expect(segments[0]).toEqual({
+      speaker: 'Jane Doe',
+      timestamp: '00:00:00',
+      endTimestamp: '00:00:05',
+      text: 'Morning everyone',
+    });
+    // Bob Smith's prefix appears once and he is not a known participant
+    expect(segments.map((segment) => segment.speaker)).toEqual(['Jane Doe', 'Unknown', 'Jane Doe']);
+    expect(segments[1].text).toBe('Bob Smith: Hi Jane');
+  });
+
+  it('keeps a colon in an ordinary sentence as text', () => {
+    const { segments } = parseVTT(
+      vtt('Jane Doe: Quick update', 'So the plan is: ship it on Friday', 'Jane Doe: Agreed')
+    );
+
+    expect(segments[1]).toMatchObject({
+      speaker: 'Unknown',
+      text: 'So the plan is: ship it on Friday',
+    });
+  });
+
+  it('does not split on times or URLs', () => {
+    const { segments } = parseVTT(
+      vtt('We meet at 10:30 tomorrow', 'The doc is at https://example.com/plan')
+    );
+
+    expect(segments.map((segment) => [segment.speaker, segment.text])).toEqual([
+      ['Unknown', 'We meet at 10:30 tomorrow'],
+      ['Unknown', 'The doc is at https://example.com/plan'],
+    ]);
+  });
+
+  it('keeps common labels as text even when they repeat', () => {
+    expect(speakers(vtt('Note: first thing', 'Note: second thing'))).toEqual([
+      'Unknown',
+      'Unknown',
+    ]);
+  });
+
+  it('takes speakers from voice tags, one segment per voice', () => {
+    const { segments } = parseVTT(
+      vtt('<v Jane Doe>Ready to start?</v>', '<v.loud Bob Smith>Yes</v> <v Jane Doe>Great</v>')
+    );
+
+    expect(segments.map((segment) => [segment.speaker, segment.text])).toEqual([
+      ['Jane Doe', 'Ready to start?'],
+      ['Bob Smith', 'Yes'],
+      ['Jane Doe', 'Great'],
+    ]);
+  });
+
+  it('recognizes a single Name: prefix of a voice elsewhere in the transcript', () => {
+    expect(speakers(vtt('<v Jane Doe>Hello</v>', 'Jane Doe: Once more'))).toEqual([
+      'Jane Doe',
+      'Jane Doe',
+    ]);
+  });
+
+  it('recognizes a single Name: prefix of a known participant or alias', () => {
+    const aliases = parseSpeakerAliases({ 'Jane Doe': ['iPhone (2)'] });
+    const content = vtt('iPhone (2): Sorry, joined late', 'Bob Smith: No problem');
+
+    expect(speakers(content)).toEqual(['Unknown', 'Unknown']);
+    expect(speakers(content, [...aliases.keys(), 'Bob Smith'])).toEqual([
+      'iPhone (2)',
+      'Bob Smith',
+    ]);
+  });
+
+  it('joins multi-line cues and skips NOTE and STYLE blocks', () => {
+    const content = [
+      'WEBVTT',
+      'NOTE written by the meeting bot',
+      'STYLE\n::cue { color: white }',
+      '00:05.000 --> 00:09.500 align:start position:10%\n<v Jane Doe>First line\n<i>second</i> &amp; third</v>',
+    ].join('\n\n');
+
+    expect(parseVTT(content).segments).toEqual([
+      {
+        speaker: 'Jane Doe',
+        timestamp: '00:00:05',
+        endTimestamp: '00:00:09',
+        text: 'First line second & third',
+      },
+    ]);
+  });
+});
+
+describe('parseSRT', () => {
+  it('parses cues with repeated Name: prefixes', () => {
+    const content = [
+      '1\n00:00:01,000 --> 00:00:04,000\nJane Doe: Hello',
+      '2\n00:00:04,000 --> 00:00:06,000\nJane Doe: Agenda first',
+    ].join('\n\n');
+
+    expect(parseSRT(content).segments).toEqual([
+      { speaker: 'Jane Doe', timestamp: '00:00:01', endTimestamp: '00:00:04', text: 'Hello' },
+      {
+        speaker: 'Jane Doe',
+        timestamp: '00:00:04',
+        endTimestamp: '00:00:06',
+        text: 'Agenda first',
+      },
+    ]);
+  });
+});
+
+describe('parseTranscript', () => {
+  it('detects the format from the content', () => {
+    const { rawText } = parseTranscript(vtt('Jane Doe: Hi', 'Jane Doe: Bye'), 'txt');
+
+    expect(rawText).toBe('Hi Bye');
+  });
+});
@@ -0,0 +1,404 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { logger } from '../../src/utils/logger.js';
+import type { SyncOptions } from '../../src/services/archiver.js';
+import type { ConfigOverrides, ZoomMeeting, ZoomUser } from '../../src/types/index.js';
+import {
+  createTestArchiver,
+  startMockZoom,
+  zoomMeeting,
+  zoomRecording,
+  zoomSummary,
+  type MockZoom,
+} from '../helpers/mock-zoom.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TRANSCRIPT = `WEBVTT
+
+1
+00:00:01.000 --> 00:00:04.000
+<v Sarah Chen>Let's start with the importer.</v>
+
+2
+00:00:05.000 --> 00:00:08.000
+<v Mike Ross>It shipped on Tuesday.</v>
+`;
+
+let zoom: MockZoom;
+let workspaceDir: string;
+
+/**
+ * Run a sync against the mock API with state loaded from and saved to the workspace
+ */
+async function runSync(overrides: ConfigOverrides = {}, options: SyncOptions = {}) {
+  const { archiver, stateManager } = await createTestArchiver(zoom, workspaceDir, overrides);
+  const result = await archiver.sync(options);
+  await stateManager.save();
+  return { result, stateManager };
+}
+
+/**
+ * A meeting that ended an hour ago, so Zoom may still produce its summary
+ */
+function recentMeeting(overrides: Partial<ZoomMeeting> = {}): ZoomMeeting {
+  return zoomMeeting({
+    start_time: new Date(Date.now() - 2 * HOUR_MS).toISOString(),
+    ...overrides,
+  });
+}
+
+async function readNote(filePath: string): Promise<string> {
+  return fs.readFile(filePath, 'utf-8');
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  zoom = await startMockZoom();
+  workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archiver-'));
+});
+
+afterEach(async () => {
+  await zoom.close();
+  await fs.rm(workspaceDir, { recursive: true, force: true });
+});
+
+describe('MeetingArchiver retry queue', () => {
+  it('leaves a queued meeting alone until its retry is due, even when it is listed again', async () => {
+    const meeting = recentMeeting();
+    const summaryPath = `/meetings/${meeting.uuid}/meeting_summary`;
+    zoom.data.meetings.me = [meeting];
+
+    const first = await runSync();
+    expect(first.result.stats.queued).toBe(1);
+    expect(first.stateManager.getRetryEntry(meeting.uuid)).toMatchObject({
+      reason: 'no-content',
+      attempts: 1,
+    });
+    expect(zoom.hits(summaryPath)).toBe(1);
+
+    // Listed again by the overlapping date range and by update mode, before the retry is due
+    await runSync();
+    const third = await runSync({ updateExisting: true });
+
+    expect(zoom.hits(summaryPath)).toBe(1);
+    expect(third.stateManager.getRetryEntry(meeting.uuid)?.attempts).toBe(1);
+    expect(third.result.stats.skipped).toBe(1);
+
+    // Once due, it is retried from the queue, once
+    third.stateManager.setRetryEntry({
+      ...third.stateManager.getRetryEntry(meeting.uuid)!,
+      nextRetryAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    await third.stateManager.save();
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+
+    const fourth = await runSync({ updateExisting: true });
+
+    expect(zoom.hits(summaryPath)).toBe(2);
+    expect(fourth.result.stats).toMatchObject({ retried: 1, success: 1 });
+    expect(fourth.stateManager.getRetryEntry(meeting.uuid)).toBeUndefined();
+    expect(fourth.stateManager.isProcessed(meeting.uuid)).toBe(true);
+  });
+
+  it('queues a meeting whose summary fetch fails', async () => {
+    const meeting = recentMeeting();
+    zoom.data.meetings.me = [meeting];
+    zoom.data.failures[`/meetings/${meeting.uuid}/meeting_summary`] = 503;
+
+    const { result, stateManager } = await runSync();
+
+    expect(result.stats.errors).toBe(1);
+    expect(stateManager.isProcessed(meeting.uuid)).toBe(false);
+    expect(stateManager.getRetryEntry(meeting.uuid)).toMatchObject({
+      reason: 'error',
+      attempts: 1,
+    });
+  });
+
+  it('queues a meeting whose participant report fails instead of writing it host-only', async () => {
+    const meeting = recentMeeting();
+    zoom.data.meetings.me = [meeting];
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    zoom.data.failures[`/report/meetings/${meeting.uuid}/participants`] = 500;
+
+    const { stateManager } = await runSync();
+
+    expect(stateManager.isProcessed(meeting.uuid)).toBe(false);
+    expect(stateManager.getRetryEntry(meeting.uuid)?.reason).toBe('error');
+  });
+});
+
+describe('MeetingArchiver update mode', () => {
+  it('rewrites a note when its summary was edited, and leaves it alone otherwise', async () => {
+    const meeting = recentMeeting();
+    zoom.data.meetings.me = [meeting];
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting, {
+      summary_last_modified_time: meeting.start_time,
+    });
+
+    const first = await runSync({ updateExisting: true });
+    const { filePath, hash } = first.stateManager.getProcessedRecording(meeting.uuid)!;
+    const original = await readNote(filePath);
+
+    // Unchanged summary: nothing is rewritten
+    const unchanged = await runSync({ updateExisting: true });
+    expect(unchanged.result.stats.updated).toBe(0);
+    expect(unchanged.result.publishedNotes).toEqual([]);
+    expect(await readNote(filePath)).toBe(original);
+    expect(unchanged.stateManager.getProcessedRecording(meeting.uuid)?.hash).toBe(hash);
+
+    // Edited summary: the note is regenerated in place
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting, {
+      summary_overview: 'We cut the importer from the sprint.',
+      summary_last_modified_time: new Date().toISOString(),
+    });
+
+    const edited = await runSync({ updateExisting: true });
+
+    expect(edited.result.stats.updated).toBe(1);
+    expect(edited.result.publishedNotes.map((note) => note.filePath)).toEqual([filePath]);
+    expect(await readNote(filePath)).toContain('We cut the importer from the sprint.');
+    expect(edited.stateManager.getProcessedRecording(meeting.uuid)?.hash).not.toBe(hash);
+  });
+
+  it('does not re-check archived meetings without update mode', async () => {
+    const meeting = recentMeeting();
+    zoom.data.meetings.me = [meeting];
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    await runSync();
+
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting, {
+      summary_overview: 'Edited',
+      summary_last_modified_time: new Date().toISOString(),
+    });
+    const { result } = await runSync();
+
+    expect(result.stats).toMatchObject({ updated: 0, skipped: 1 });
+    expect(zoom.hits(`/meetings/${meeting.uuid}/meeting_summary`)).toBe(1);
+  });
+});
+
+describe('MeetingArchiver note sources', () => {
+  /**
+   * Archive one meeting and return its note
+   */
+  async function archive(meeting: ZoomMeeting): Promise<string> {
+    zoom.data.meetings.me = [meeting];
+    const { stateManager } = await runSync();
+    return readNote(stateManager.getProcessedRecording(meeting.uuid)!.filePath);
+  }
+
+  it('falls back to the cloud recording transcript when there is no AI summary', async () => {
+    const meeting = recentMeeting();
+    zoom.data.recordings.me = [zoomRecording(zoom, meeting, { transcript: TRANSCRIPT })];
+
+    const note = await archive(meeting);
+
+    expect(note).toContain("Let's start with the importer.");
+    expect(note).toContain('It shipped on Tuesday.');
+    expect(note).toContain('transcript_available: true');
+    expect(note).toContain('Zoom Cloud Recording');
+    // Speakers are not attendees; without an attendance report only the host is listed
+    expect(note).toMatch(/participants:\n\s+- sarah\.chen@example\.com\n(?!\s+- )/);
+  });
+
+  it('merges the transcript into a note built from the AI summary', async () => {
+    const meeting = recentMeeting();
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    zoom.data.recordings.me = [zoomRecording(zoom, meeting, { transcript: TRANSCRIPT })];
+
+    const note = await archive(meeting);
+
+    expect(note).toContain('We planned the sprint.');
+    expect(note).toContain('Ship the importer first.');
+    expect(note).toContain('It shipped on Tuesday.');
+    expect(note).toContain('Zoom AI Companion summary and Cloud Recording transcript');
+  });
+
+  it('archives from the AI summary alone when recordings cannot be listed', async () => {
+    const meeting = recentMeeting();
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    zoom.data.failures['/users/me/recordings'] = 403;
+
+    const note = await archive(meeting);
+
+    expect(note).toContain('We planned the sprint.');
+    expect(note).toContain('transcript_available: false');
+  });
+
+  it('lists attendees from the participant report, not from transcript speakers', async () => {
+    const meeting = recentMeeting();
+    zoom.data.recordings.me = [zoomRecording(zoom, meeting, { transcript: TRANSCRIPT })];
+    zoom.data.participants[meeting.uuid] = [
+      {
+        name: 'Sarah Chen',
+        user_email: 'sarah.chen@example.com',
+        join_time: meeting.start_time,
+        leave_time: meeting.start_time,
+        duration: 1800,
+      },
+      {
+        name: 'Priya Patel',
+        join_time: meeting.start_time,
+        leave_time: meeting.start_time,
+        duration: 1200,
+      },
+    ];
+
+    const note = await archive(meeting);
+
+    expect(note).toMatch(/participants:\n\s+- sarah\.chen@example\.com\n\s+- Priya Patel\n/);
+    expect(note).not.toMatch(/participants:[^:]*Mike Ross/);
+  });
+});
+
+describe('MeetingArchiver users', () => {
+  const jane: ZoomUser = { id: 'u-jane', email: 'jane@example.com' };
+  const bob: ZoomUser = { id: 'u-bob', email: 'bob@example.com' };
+  const otherBob: ZoomUser = { id: 'u-bob2', email: 'bob@example.org' };
+
+  it('resolves explicit users, group members and all users once each', async () => {
+    zoom.data.groups.eng = [jane, bob];
+    zoom.data.users = [jane, bob, otherBob];
+    const { archiver } = await createTestArchiver(zoom, workspaceDir, {
+      users: { userIds: ['JANE@example.com', 'u-carol'], groupId: 'eng', allUsers: true },
+    });
+
+    const targets = await archiver.resolveTargets();
+    const notesDir = path.join(workspaceDir, 'meeting-notes');
+
+    expect(targets).toEqual([
+      { userId: 'u-jane', label: 'jane@example.com', outputDir: path.join(notesDir, 'jane') },
+      { userId: 'u-bob', label: 'bob@example.com', outputDir: path.join(notesDir, 'bob') },
+      {
+        userId: 'u-bob2',
+        label: 'bob@example.org',
+        outputDir: expect.stringMatching(/bob-[a-z0-9]+$/),
+      },
+      { userId: 'u-carol', label: 'u-carol', outputDir: path.join(notesDir, 'u-carol') },
+    ]);
+  });
+
+  it('archives each user into their own folder with their own cursor, shared meetings once', async () => {
+    const planning = recentMeeting({ uuid: 'planning==', topic: 'Planning' });
+    const oneOnOne = recentMeeting({ uuid: 'one-on-one==', topic: 'One on one' });
+    zoom.data.meetings['u-jane'] = [planning, oneOnOne];
+    zoom.data.meetings['u-bob'] = [planning];
+    for (const meeting of [planning, oneOnOne]) {
+      zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    }
+    zoom.data.groups.eng = [jane, bob];
+
+    const to = new Date();
+    const { result, stateManager } = await runSync({ users: { groupId: 'eng' } }, { to });
+
+    expect(result.users).toBe(2);
+    expect(result.stats).toMatchObject({ success: 2, skipped: 1 });
+    expect(stateManager.getProcessedRecording('planning==')).toMatchObject({ userId: 'u-jane' });
+    expect(stateManager.getProcessedRecording('one-on-one==')?.filePath).toContain(
+      `${path.sep}jane${path.sep}`
+    );
+    expect(stateManager.getState().userCursors).toEqual({
+      'u-jane': to.toISOString(),
+      'u-bob': to.toISOString(),
+    });
+  });
+
+  it('keeps syncing other users when one user cannot be listed', async () => {
+    const meeting = recentMeeting();
+    zoom.data.meetings['u-bob'] = [meeting];
+    zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    zoom.data.failures['/report/users/u-jane/meetings'] = 404;
+
+    const to = new Date();
+    const { result, stateManager } = await runSync(
+      { users: { userIds: ['u-jane', 'u-bob'] } },
+      { to }
+    );
+
+    expect(result.stats).toMatchObject({ errors: 1, success: 1 });
+    expect(stateManager.isProcessed(meeting.uuid)).toBe(true);
+    expect(stateManager.getState().userCursors).toEqual({ 'u-bob': to.toISOString() });
+  });
+});
+
+describe('MeetingArchiver run budget', () => {
+  function meetings(count: number): ZoomMeeting[] {
+    return Array.from({ length: count }, (_, index) =>
+      recentMeeting({
+        uuid: `meeting-${index}==`,
+        topic: `Meeting ${index}`,
+        start_time: new Date(Date.now() - (10 - index) * HOUR_MS).toISOString(),
+      })
+    );
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops after the meeting cap and resumes from the cursor on the next run', async () => {
+    const listed = meetings(3);
+    zoom.data.meetings.me = listed;
+    for (const meeting of listed) {
+      zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    }
+
+    const first = await runSync({ maxRecordingsPerRun: 2 });
+
+    expect(first.result.complete).toBe(false);
+    expect(first.result.stats).toMatchObject({ success: 2, deferred: 1 });
+    expect(first.stateManager.getLastFetchTimestamp()).toBe(listed[1].start_time);
+    expect(first.stateManager.isProcessed(listed[2].uuid)).toBe(false);
+
+    const second = await runSync({ maxRecordingsPerRun: 2 });
+
+    expect(second.result.complete).toBe(true);
+    expect(second.result.stats).toMatchObject({ success: 1, deferred: 0 });
+    expect(second.stateManager.isProcessed(listed[2].uuid)).toBe(true);
+  });
+
+  it('stops starting meetings once the time budget is spent', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const listed = meetings(3);
+    zoom.data.meetings.me = listed;
+    for (const meeting of listed) {
+      zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    }
+    // The first meeting takes two minutes
+    Object.defineProperty(zoom.data.summaries, listed[0].uuid, {
+      get: () => {
+        vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+        return zoomSummary(listed[0]);
+      },
+    });
+
+    const { result, stateManager } = await runSync({ timeBudgetMinutes: 1 });
+
+    expect(result.stats).toMatchObject({ success: 1, deferred: 2 });
+    expect(stateManager.getLastFetchTimestamp()).toBe(listed[0].start_time);
+  });
+
+  it('leaves the cursor alone when a backfill runs out of budget', async () => {
+    const listed = meetings(2);
+    zoom.data.meetings.me = listed;
+    for (const meeting of listed) {
+      zoom.data.summaries[meeting.uuid] = zoomSummary(meeting);
+    }
+    const { archiver, stateManager } = await createTestArchiver(zoom, workspaceDir, {
+      maxRecordingsPerRun: 1,
+    });
+    const cursor = stateManager.getLastFetchTimestamp();
+
+    const result = await archiver.sync({ from: new Date(Date.now() - 86_400_000) });
+
+    expect(result.stats).toMatchObject({ success: 1, deferred: 1 });
+    expect(stateManager.getLastFetchTimestamp()).toBe(cursor);
+  });
+});
@@ -0,0 +1,201 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { simpleGit } from 'simple-git';
+import {
+  GitPublisher,
+  createCommitMessage,
+  type PublishedNote,
+} from '../../src/services/git-publisher.js';
+import { logger } from '../../src/utils/logger.js';
+import type { GitPublishConfig } from '../../src/types/index.js';
+
+const GIT_CONFIG: GitPublishConfig = {
+  enabled: true,
+  push: false,
+  remote: 'origin',
+  branch: 'main',
+  authorName: 'Test Bot',
+  authorEmail: 'bot@example.com',
+  maxPushAttempts: 3,
+};
+
+let tempDir: string;
+let remoteDir: string;
+
+/**
+ * Clone the bare remote into a new working copy
+ */
+async function cloneRemote(name: string): Promise<string> {
+  const dir = path.join(tempDir, name);
+  await simpleGit().clone(remoteDir, dir);
+  const git = simpleGit(dir);
+  await git.addConfig('user.name', name);
+  await git.addConfig('user.email', `${name}@example.com`);
+  return dir;
+}
+
+async function writeFile(dir: string, relativePath: string, content: string): Promise<string> {
+  const filePath = path.join(dir, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+function note(filePath: string, title: string, startTime: string, timezone = 'UTC'): PublishedNote {
+  return { filePath, title, startTime, timezone };
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-publisher-'));
+  remoteDir = path.join(tempDir, 'remote.git');
+  await simpleGit().init(true, [remoteDir, '--initial-branch=main']);
+
+  // Seed the remote with a first commit
+  const seed = await cloneRemote('seed');
+  await writeFile(seed, 'README.md', '# Notes\n');
+  await writeFile(seed, '.gitignore', 'ignored/\n');
+  await simpleGit(seed).add('.').commit('initial').push('origin', 'HEAD:main');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('GitPublisher', () => {
+  it('commits the notes written in the run with a message listing them', async () => {
+    const workspace = await cloneRemote('workspace');
+    const first = await writeFile(workspace, 'notes/standup.md', '# Standup\n');
+    const second = await writeFile(workspace, 'notes/planning.md', '# Planning\n');
+    await writeFile(workspace, 'notes/unrelated.md', '# Not from this run\n');
+
+    const publisher = new GitPublisher(workspace, GIT_CONFIG);
+    const result = await publisher.publish([
+      note(second, 'Planning', '2024-12-06T15:00:00Z'),
+      note(first, 'Standup', '2024-12-06T09:30:00Z'),
+    ]);
+
+    expect(result).toMatchObject({ committed: true, pushed: false });
+
+    const git = simpleGit(workspace);
+    const log = await git.log({ maxCount: 1 });
+    expect(log.latest?.hash).toBe(result.commitHash);
+    expect(log.latest?.author_name).toBe('Test Bot');
+    expect(log.latest?.message).toMatch(
+      /^chore: add meeting notes for \d{4}-\d{2}-\d{2} \(2 meetings\)$/
+    );
+    expect(log.latest?.body.trim()).toBe('- 2024-12-06 09:30 Standup\n- 2024-12-06 15:00 Planning');
+
+    const committed = await git.show(['--name-only', '--format=', 'HEAD']);
+    expect(committed.split('\n').filter(Boolean).sort()).toEqual([
+      'notes/planning.md',
+      'notes/standup.md',
+    ]);
+    expect((await git.status()).not_added).toContain('notes/unrelated.md');
+  });
+
+  it('does not commit when nothing changed', async () => {
+    const workspace = await cloneRemote('workspace');
+    const existing = path.join(workspace, 'README.md');
+    const head = await simpleGit(workspace).revparse(['HEAD']);
+
+    const result = await new GitPublisher(workspace, GIT_CONFIG).publish(
+      [note(existing, 'Readme', '2024-12-06T09:00:00Z')],
+      [path.join(workspace, '.gitignore')]
+    );
+
+    expect(result).toEqual({ committed: false, pushed: false });
+    expect(await simpleGit(workspace).revparse(['HEAD'])).toBe(head);
+  });
+
+  it('does not stage files the repository ignores', async () => {
+    const workspace = await cloneRemote('workspace');
+    const notePath = await writeFile(workspace, 'notes/standup.md', '# Standup\n');
+    const statePath = await writeFile(workspace, 'ignored/.state.json', '{}\n');
+
+    const result = await new GitPublisher(workspace, GIT_CONFIG).publish(
+      [note(notePath, 'Standup', '2024-12-06T09:30:00Z')],
+      [statePath]
+    );
+
+    expect(result.committed).toBe(true);
+    const committed = await simpleGit(workspace).show(['--name-only', '--format=', 'HEAD']);
+    expect(committed.split('\n').filter(Boolean)).toEqual(['notes/standup.md']);
+  });
+
+  it('rebases and pushes again when another run pushed first', async () => {
+    const workspace = await cloneRemote('workspace');
+    const other = await cloneRemote('other');
+
+    // Both runs update the state file; the other run pushes first
+    await writeFile(other, 'notes/other.md', '# Other run\n');
+    await writeFile(other, '.state.json', '{"run":"other"}\n');
+    await simpleGit(other).add('.').commit('other run').push('origin', 'HEAD:main');
+
+    const notePath = await writeFile(workspace, 'notes/standup.md', '# Standup\n');
+    const statePath = await writeFile(workspace, '.state.json', '{"run":"this"}\n');
+
+    const result = await new GitPublisher(workspace, { ...GIT_CONFIG, push: true }).publish(
+      [note(notePath, 'Standup', '2024-12-06T09:30:00Z')],
+      [statePath]
+    );
+
+    expect(result).toMatchObject({ committed: true, pushed: true });
+
+    // The remote has both runs' notes, and this run's state file won the conflict
+    const verify = await cloneRemote('verify');
+    const log = await simpleGit(verify).log();
+    expect(log.all.map((entry) => entry.message)).toEqual([
+      expect.stringMatching(/^chore: add meeting notes/),
+      'other run',
+      'initial',
+    ]);
+    await expect(fs.readFile(path.join(verify, 'notes/other.md'), 'utf8')).resolves.toBe(
+      '# Other run\n'
+    );
+    await expect(fs.readFile(path.join(verify, 'notes/standup.md'), 'utf8')).resolves.toBe(
+      '# Standup\n'
+    );
+    await expect(fs.readFile(path.join(verify, '.state.json'), 'utf8')).resolves.toBe(
+      '{"run":"this"}\n'
+    );
+  });
+});
+
+describe('createCommitMessage', () => {
+  it('describes a state-only commit', () => {
+    expect(createCommitMessage([])).toBe('chore: update meeting notes state');
+  });
+
+  it('uses the singular for one meeting', () => {
+    const message = createCommitMessage(
+      [note('a.md', 'Standup', '2024-12-06T09:30:00Z')],
+      new Date('2024-12-07T12:00:00Z')
+    );
+
+    expect(message).toBe(
+      'chore: add meeting notes for 2024-12-07 (1 meeting)\n\n- 2024-12-06 09:30 Standup'
+    );
+  });
+
+  it("shows times in each note's timezone, not the runner's", () => {
+    const message = createCommitMessage(
+      [
+        note('a.md', 'Tokyo sync', '2024-12-06T23:30:00Z', 'Asia/Tokyo'),
+        note('b.md', 'West coast sync', '2024-12-07T01:00:00Z', 'America/Los_Angeles'),
+      ],
+      new Date('2024-12-07T03:00:00Z')
+    );
+
+    expect(message).toBe(
+      'chore: add meeting notes for 2024-12-06 (2 meetings)\n\n' +
+        '- 2024-12-07 08:30 Tokyo sync\n' +
+        '- 2024-12-06 17:00 West coast sync'
+    );
+  });
+});
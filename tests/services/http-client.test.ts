@@ -0,0 +1,207 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ZoomHttpClient, parseRetryAfter } from '../../src/services/http-client.js';
+import { ZoomAuthClient } from '../../src/services/zoom-auth.js';
+import { logger } from '../../src/utils/logger.js';
+import type { HttpConfig } from '../../src/types/index.js';
+import {
+  startMockServer,
+  sendJson,
+  type MockHandler,
+  type MockServer,
+} from '../helpers/mock-server.js';
+
+const HTTP_CONFIG: HttpConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 10,
+  maxDelayMs: 5000,
+  jitter: 0,
+  timeoutMs: 5000,
+  rateLimits: { light: 100, medium: 100, heavy: 100 },
+};
+
+let server: MockServer | undefined;
+let tokensIssued = 0;
+
+/**
+ * Start a mock Zoom API that issues tokens t1, t2, ... and answers API requests with the handler
+ */
+async function createClient(
+  handler: MockHandler,
+  config: Partial<HttpConfig> = {}
+): Promise<{ client: ZoomHttpClient; apiRequests: () => number }> {
+  tokensIssued = 0;
+  let apiRequests = 0;
+
+  server = await startMockServer((req, res) => {
+    if (req.url?.startsWith('/oauth')) {
+      tokensIssued++;
+      sendJson(res, 200, { access_token: `t${tokensIssued}`, expires_in: 3600 });
+      return;
+    }
+    apiRequests++;
+    return handler(req, res);
+  });
+
+  const auth = new ZoomAuthClient({
+    accountId: 'account',
+    clientId: 'client',
+    clientSecret: 'secret',
+    oauthUrl: `${server.url}/oauth/token`,
+  });
+
+  return {
+    client: new ZoomHttpClient(auth, { ...HTTP_CONFIG, ...config }, `${server.url}/v2`),
+    apiRequests: () => apiRequests,
+  };
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe('ZoomHttpClient', () => {
+  it('waits for Retry-After seconds after a 429', async () => {
+    let calls = 0;
+    const { client, apiRequests } = await createClient((_req, res) => {
+      if (++calls === 1) {
+        sendJson(res, 429, { code: 429 }, { 'retry-after': '1' });
+        return;
+      }
+      sendJson(res, 200, { ok: true });
+    });
+
+    const started = Date.now();
+    const response = await client.get<{ ok: boolean }>('/users/me');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(apiRequests()).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+  });
+
+  it('waits until a Retry-After HTTP date after a 429', async () => {
+    let calls = 0;
+    let retryAt = 0;
+    const { client } = await createClient((_req, res) => {
+      if (++calls === 1) {
+        // HTTP dates have whole seconds, so this is 1-2 seconds away
+        retryAt = Math.ceil((Date.now() + 1000) / 1000) * 1000;
+        sendJson(res, 429, { code: 429 }, { 'retry-after': new Date(retryAt).toUTCString() });
+        return;
+      }
+      sendJson(res, 200, { ok: true });
+    });
+
+    await client.get('/users/me');
+
+    expect(calls).toBe(2);
+    expect(Date.now()).toBeGreaterThanOrEqual(retryAt - 50);
+  });
+
+  it('gives up at once when Retry-After exceeds the maximum delay', async () => {
+    const { client, apiRequests } = await createClient((_req, res) => {
+      sendJson(res, 429, { code: 429 }, { 'retry-after': '3600' });
+    });
+
+    await expect(client.get('/users/me')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(apiRequests()).toBe(1);
+  });
+
+  it('retries 5xx responses up to the maximum number of attempts', async () => {
+    const { client, apiRequests } = await createClient((_req, res) => {
+      sendJson(res, 503, { message: 'unavailable' });
+    });
+
+    await expect(client.get('/users/me')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(apiRequests()).toBe(HTTP_CONFIG.maxAttempts);
+  });
+
+  it('recovers when a 5xx is followed by success', async () => {
+    let calls = 0;
+    const { client } = await createClient((_req, res) => {
+      sendJson(res, ++calls < 3 ? 502 : 200, { calls });
+    });
+
+    const response = await client.get<{ calls: number }>('/users/me');
+
+    expect(response.data.calls).toBe(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    const { client, apiRequests } = await createClient((_req, res) => {
+      sendJson(res, 404, { code: 3001 });
+    });
+
+    await expect(client.get('/users/me')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(apiRequests()).toBe(1);
+  });
+
+  it('refreshes the token once on a 401', async () => {
+    const { client, apiRequests } = await createClient((req, res) => {
+      if (req.headers.authorization === 'Bearer t1') {
+        sendJson(res, 401, { code: 124, message: 'Invalid access token' });
+        return;
+      }
+      sendJson(res, 200, { authorization: req.headers.authorization });
+    });
+
+    const response = await client.get<{ authorization: string }>('/users/me');
+
+    expect(response.data.authorization).toBe('Bearer t2');
+    expect(tokensIssued).toBe(2);
+    expect(apiRequests()).toBe(2);
+  });
+
+  it('fails when the refreshed token is rejected too', async () => {
+    const { client, apiRequests } = await createClient((_req, res) => {
+      sendJson(res, 401, { code: 124 });
+    });
+
+    await expect(client.get('/users/me')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(tokensIssued).toBe(2);
+    expect(apiRequests()).toBe(2);
+  });
+
+  it('throttles requests to the category rate limit', async () => {
+    const { client } = await createClient(
+      (_req, res) => {
+        sendJson(res, 200, {});
+      },
+      { rateLimits: { light: 2, medium: 100, heavy: 100 } }
+    );
+
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 4 }, () => client.get('/users/me')));
+
+    // Two requests go at once, the next two wait for the bucket to refill
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(0)).toBe(0);
+  });
+
+  it('parses an HTTP date', () => {
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const ms = parseRetryAfter(inTenSeconds);
+
+    expect(ms).toBeGreaterThan(8000);
+    expect(ms).toBeLessThanOrEqual(10_000);
+  });
+
+  it('treats a date in the past as no wait', () => {
+    expect(parseRetryAfter(new Date(Date.now() - 60_000).toUTCString())).toBe(0);
+  });
+
+  it('ignores missing and invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
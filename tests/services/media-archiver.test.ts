@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MediaArchiver } from '../../src/services/media-archiver.js';
+import type { MediaStorage } from '../../src/services/media-storage/index.js';
+import { LocalMediaStorage } from '../../src/services/media-storage/local-storage.js';
+import { S3MediaStorage } from '../../src/services/media-storage/s3-storage.js';
+import { ZoomApiClient } from '../../src/services/zoom-api.js';
+import { loadConfig } from '../../src/utils/config.js';
+import { logger } from '../../src/utils/logger.js';
+import type {
+  ConfigOverrides,
+  MeetingMetadata,
+  RecordingFile,
+  ZoomRecording,
+} from '../../src/types/index.js';
+import {
+  sendJson,
+  startMockServer,
+  type MockHandler,
+  type MockServer,
+} from '../helpers/mock-server.js';
+import { startS3Server } from '../helpers/s3-server.js';
+
+const VIDEO = crypto.randomBytes(256 * 1024);
+const VIDEO_SHA256 = crypto.createHash('sha256').update(VIDEO).digest('hex');
+const VIDEO_KEY =
+  '2024/12/06/sprint-planning-aDYlohsHRtCd/shared_screen_with_speaker_view-video1.mp4';
+
+const METADATA: MeetingMetadata = {
+  title: 'Sprint Planning',
+  meetingId: '84512345678',
+  uuid: 'aDYlohsHRtCd4ii1uC2+hA==',
+  startTime: '2024-12-06T18:00:00Z',
+  timezone: 'UTC',
+  duration: 1800,
+  host: 'sarah.chen@example.com',
+  participants: [],
+  recordingCount: 1,
+  transcriptAvailable: true,
+};
+
+let server: MockServer | undefined;
+let tempDir: string;
+
+/**
+ * Start a mock Zoom API that serves downloads with the handler, and an archiver that
+ * stores media in a temporary directory unless another store is given
+ */
+async function createArchiver(
+  handler: MockHandler,
+  overrides: ConfigOverrides = {},
+  storage: MediaStorage = new LocalMediaStorage(path.join(tempDir, 'media'))
+) {
+  server = await startMockServer((req, res) => {
+    if (req.url?.startsWith('/oauth')) {
+      sendJson(res, 200, { access_token: 'token', expires_in: 3600 });
+      return;
+    }
+    return handler(req, res);
+  });
+
+  const config = loadConfig(
+    {
+      ...overrides,
+      zoom: {
+        accountId: 'account',
+        clientId: 'client',
+        clientSecret: 'secret',
+        apiBaseUrl: `${server.url}/v2`,
+        oauthUrl: `${server.url}/oauth/token`,
+      },
+      media: { fileTypes: ['MP4'], maxFileSizeMb: 1, ...overrides.media },
+      http: { maxAttempts: 3, baseDelayMs: 10, jitter: 0, ...overrides.http },
+    },
+    { requireCredentials: false }
+  );
+  const zoomClient = new ZoomApiClient(config.zoom, config.http);
+
+  return { archiver: new MediaArchiver(zoomClient, storage, config), storage };
+}
+
+function recording(file: Partial<RecordingFile> = {}): ZoomRecording {
+  return {
+    uuid: METADATA.uuid,
+    id: 84512345678,
+    account_id: 'account',
+    host_id: 'host',
+    host_email: 'sarah.chen@example.com',
+    topic: 'Sprint Planning',
+    start_time: METADATA.startTime,
+    duration: 30,
+    total_size: VIDEO.length,
+    recording_count: 1,
+    share_url: '',
+    recording_files: [
+      {
+        id: 'video1',
+        meeting_id: METADATA.uuid,
+        recording_start: METADATA.startTime,
+        recording_end: '2024-12-06T18:30:00Z',
+        file_type: 'MP4',
+        file_extension: 'MP4',
+        file_size: VIDEO.length,
+        download_url: `${server?.url}/rec/download/video1`,
+        status: 'completed',
+        recording_type: 'shared_screen_with_speaker_view',
+        ...file,
+      },
+    ],
+  };
+}
+
+/**
+ * Requests the server received for the recording file
+ */
+function downloads() {
+  return (server?.requests ?? []).filter((req) => req.url?.startsWith('/rec/download'));
+}
+
+/**
+ * Send part of the body, then drop the connection
+ */
+function sendThenDrop(res: ServerResponse, body: Buffer, bytes: number): void {
+  res.writeHead(200, { 'content-length': body.length });
+  res.write(body.subarray(0, bytes), () => setTimeout(() => res.destroy(), 20));
+}
+
+/**
+ * Answer a Range request with the rest of the body
+ */
+function sendRange(res: ServerResponse, range: string | undefined, body: Buffer): void {
+  const start = Number(range?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+  res.writeHead(start > 0 ? 206 : 200, {
+    'content-length': body.length - start,
+    ...(start > 0 && { 'content-range': `bytes ${start}-${body.length - 1}/${body.length}` }),
+  });
+  res.end(body.subarray(start));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-archiver-'));
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('MediaArchiver', () => {
+  it('downloads a recording file and stores it with its checksum', async () => {
+    const { archiver, storage } = await createArchiver((req, res) =>
+      sendRange(res, undefined, VIDEO)
+    );
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result).toEqual({
+      media: [
+        {
+          fileName: 'shared_screen_with_speaker_view-video1.mp4',
+          fileType: 'MP4',
+          recordingType: 'shared_screen_with_speaker_view',
+          size: VIDEO.length,
+          sha256: VIDEO_SHA256,
+          location: storage.locate(VIDEO_KEY),
+        },
+      ],
+      failed: 0,
+    });
+    expect((await fs.readFile(storage.locate(VIDEO_KEY))).equals(VIDEO)).toBe(true);
+    expect(downloads()[0].headers.authorization).toBe('Bearer token');
+  });
+
+  it('resumes an interrupted download with a Range request', async () => {
+    let attempts = 0;
+    const { archiver, storage } = await createArchiver((req, res) => {
+      if (attempts++ === 0) {
+        sendThenDrop(res, VIDEO, 100 * 1024);
+        return;
+      }
+      sendRange(res, req.headers.range, VIDEO);
+    });
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result.failed).toBe(0);
+    expect(result.media[0].sha256).toBe(VIDEO_SHA256);
+    expect((await fs.readFile(storage.locate(VIDEO_KEY))).equals(VIDEO)).toBe(true);
+
+    const [first, second] = downloads();
+    expect(first.headers.range).toBeUndefined();
+    expect(second.headers.range).toMatch(/^bytes=[1-9]\d*-$/);
+  });
+
+  it('starts over when the server ignores the Range request', async () => {
+    let attempts = 0;
+    const { archiver, storage } = await createArchiver((req, res) => {
+      if (attempts++ === 0) {
+        sendThenDrop(res, VIDEO, 100 * 1024);
+        return;
+      }
+      sendRange(res, undefined, VIDEO);
+    });
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result.media[0].sha256).toBe(VIDEO_SHA256);
+    expect((await fs.readFile(storage.locate(VIDEO_KEY))).equals(VIDEO)).toBe(true);
+    expect(downloads()[1].headers.range).toMatch(/^bytes=\d+-$/);
+  });
+
+  it('aborts a download that exceeds the size limit and does not retry it', async () => {
+    const oversized = crypto.randomBytes(1024 * 1024 + 1);
+    const { archiver, storage } = await createArchiver((req, res) =>
+      sendRange(res, undefined, oversized)
+    );
+
+    // Zoom reported a small file, but the server sends more than MEDIA_MAX_FILE_SIZE_MB
+    const result = await archiver.archive(recording({ file_size: 1000 }), METADATA);
+
+    expect(result).toEqual({ media: [], failed: 0 });
+    expect(downloads()).toHaveLength(1);
+    expect(existsSync(storage.locate(VIDEO_KEY))).toBe(false);
+    expect(await fs.readdir(storage.stagingDir)).toEqual([]);
+  });
+
+  it('skips files Zoom reports as larger than the size limit without downloading them', async () => {
+    const { archiver } = await createArchiver((req, res) => sendRange(res, undefined, VIDEO));
+
+    const result = await archiver.archive(recording({ file_size: 2 * 1024 * 1024 }), METADATA);
+
+    expect(result).toEqual({ media: [], failed: 0 });
+    expect(downloads()).toHaveLength(0);
+  });
+
+  it('counts a download that keeps failing, to retry on a later run', async () => {
+    const { archiver, storage } = await createArchiver((req, res) => {
+      res.writeHead(500).end();
+    });
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result).toEqual({ media: [], failed: 1 });
+    expect(existsSync(storage.locate(VIDEO_KEY))).toBe(false);
+  });
+
+  it('counts a download shorter than Zoom reported as failed', async () => {
+    const { archiver, storage } = await createArchiver((req, res) =>
+      sendRange(res, undefined, VIDEO.subarray(0, 1000))
+    );
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result).toEqual({ media: [], failed: 1 });
+    expect(existsSync(storage.locate(VIDEO_KEY))).toBe(false);
+  });
+
+  it('does not download files that are already stored', async () => {
+    const { archiver } = await createArchiver((req, res) => sendRange(res, undefined, VIDEO));
+    await archiver.archive(recording(), METADATA);
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result.media[0].sha256).toBe(VIDEO_SHA256);
+    expect(downloads()).toHaveLength(1);
+  });
+
+  it('downloads nothing in dry-run mode', async () => {
+    const { archiver } = await createArchiver((req, res) => sendRange(res, undefined, VIDEO), {
+      dryRun: true,
+    });
+
+    const result = await archiver.archive(recording(), METADATA);
+
+    expect(result).toEqual({ media: [], failed: 0 });
+    expect(downloads()).toHaveLength(0);
+  });
+
+  it('uploads to an S3-compatible store', async () => {
+    const credentials = {
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'secret',
+      region: 'us-east-1',
+    };
+    const s3 = await startS3Server(credentials);
+
+    try {
+      const storage = new S3MediaStorage({
+        ...credentials,
+        endpoint: s3.url,
+        bucket: 'media',
+        prefix: '',
+      });
+      const { archiver } = await createArchiver(
+        (req, res) => sendRange(res, undefined, VIDEO),
+        {},
+        storage
+      );
+
+      const result = await archiver.archive(recording(), METADATA);
+
+      expect(result.media[0]).toMatchObject({
+        sha256: VIDEO_SHA256,
+        location: `s3://media/${VIDEO_KEY}`,
+      });
+      expect(s3.objects.get(`/media/${VIDEO_KEY}`)?.body.equals(VIDEO)).toBe(true);
+    } finally {
+      await s3.close();
+    }
+  });
+});
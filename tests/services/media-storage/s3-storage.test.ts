@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { S3MediaStorage } from '../../../src/services/media-storage/s3-storage.js';
+import { startS3Server, type S3Server } from '../../helpers/s3-server.js';
+
+const CREDENTIALS = {
+  accessKeyId: 'minioadmin',
+  secretAccessKey: 'minio-secret',
+  region: 'us-east-1',
+};
+const KEY = '2024/12/06/sprint planning/audio_only-ab12cd34.m4a';
+
+let server: S3Server;
+let tempDir: string;
+
+function createStorage(overrides: { secretAccessKey?: string; publicUrl?: string } = {}) {
+  return new S3MediaStorage({
+    endpoint: `${server.url}/`,
+    bucket: 'recordings',
+    region: CREDENTIALS.region,
+    prefix: 'zoom/',
+    accessKeyId: CREDENTIALS.accessKeyId,
+    secretAccessKey: overrides.secretAccessKey ?? CREDENTIALS.secretAccessKey,
+    publicUrl: overrides.publicUrl,
+  });
+}
+
+/**
+ * Write a staging file and return it with its size and checksum
+ */
+async function stagedFile(content: Buffer) {
+  const filePath = path.join(tempDir, `${crypto.randomUUID()}.part`);
+  await fs.writeFile(filePath, content);
+  return {
+    filePath,
+    media: {
+      size: content.length,
+      sha256: crypto.createHash('sha256').update(content).digest('hex'),
+    },
+  };
+}
+
+beforeEach(async () => {
+  server = await startS3Server(CREDENTIALS);
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 's3-storage-'));
+});
+
+afterEach(async () => {
+  await server.close();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('S3MediaStorage', () => {
+  it('uploads a file with signed requests and reads back its size and checksum', async () => {
+    const storage = createStorage();
+    const content = crypto.randomBytes(64 * 1024);
+    const { filePath, media } = await stagedFile(content);
+
+    await storage.put(KEY, filePath, media);
+
+    const object = server.objects.get(`/recordings/zoom/${KEY}`);
+    expect(object?.body.equals(content)).toBe(true);
+    expect(object?.headers).toMatchObject({
+      'content-type': 'audio/mp4',
+      'x-amz-meta-sha256': media.sha256,
+    });
+    await expect(storage.stat(KEY)).resolves.toEqual(media);
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it('reports a missing object as not stored', async () => {
+    await expect(createStorage().stat(KEY)).resolves.toBeUndefined();
+  });
+
+  it('is rejected when the file does not match its checksum', async () => {
+    const storage = createStorage();
+    const { filePath, media } = await stagedFile(Buffer.from('recording'));
+    await fs.writeFile(filePath, 'tampered'); // Changed after it was hashed
+
+    await expect(storage.put(KEY, filePath, { ...media, size: 8 })).rejects.toThrow('HTTP 400');
+    expect(server.objects.size).toBe(0);
+    expect(existsSync(filePath)).toBe(true);
+  });
+
+  it('is rejected with the wrong secret key', async () => {
+    const storage = createStorage({ secretAccessKey: 'wrong' });
+    const { filePath, media } = await stagedFile(Buffer.from('recording'));
+
+    await expect(storage.stat(KEY)).rejects.toThrow('HTTP 403');
+    await expect(storage.put(KEY, filePath, media)).rejects.toThrow('HTTP 403');
+    expect(server.objects.size).toBe(0);
+  });
+
+  it('links to objects through the public URL, or by bucket and key', () => {
+    expect(createStorage().locate(KEY)).toBe(
+      's3://recordings/zoom/2024/12/06/sprint%20planning/audio_only-ab12cd34.m4a'
+    );
+    expect(createStorage({ publicUrl: 'https://media.example.com/' }).locate(KEY)).toBe(
+      'https://media.example.com/zoom/2024/12/06/sprint%20planning/audio_only-ab12cd34.m4a'
+    );
+  });
+});
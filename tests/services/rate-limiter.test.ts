@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter, categorizeEndpoint } from '../../src/services/rate-limiter.js';
+
+describe('RateLimiter', () => {
+  it('lets a full bucket through at once', async () => {
+    const limiter = new RateLimiter({ light: 5, medium: 5, heavy: 5 });
+
+    const started = Date.now();
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire('light');
+    }
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('throttles requests beyond the bucket to its refill rate', async () => {
+    const limiter = new RateLimiter({ light: 4, medium: 4, heavy: 4 });
+
+    const started = Date.now();
+    for (let i = 0; i < 8; i++) {
+      await limiter.acquire('light');
+    }
+
+    // Four more tokens at four per second
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+
+  it('keeps a bucket per category', async () => {
+    const limiter = new RateLimiter({ light: 1, medium: 1, heavy: 1 });
+    await limiter.acquire('heavy');
+
+    const started = Date.now();
+    await limiter.acquire('light');
+    await limiter.acquire('medium');
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('holds back a paused category only', async () => {
+    const limiter = new RateLimiter({ light: 10, medium: 10, heavy: 10 });
+    limiter.pause('heavy', 300);
+
+    const started = Date.now();
+    await limiter.acquire('light');
+    expect(Date.now() - started).toBeLessThan(100);
+
+    await limiter.acquire('heavy');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(290);
+  });
+
+  it('serves waiters in order', async () => {
+    const limiter = new RateLimiter({ light: 1, medium: 1, heavy: 1 });
+    const order: number[] = [];
+
+    await Promise.all([0, 1, 2].map((i) => limiter.acquire('medium').then(() => order.push(i))));
+
+    expect(order).toEqual([0, 1, 2]);
+  });
+});
+
+describe('categorizeEndpoint', () => {
+  it('maps endpoints to Zoom rate limit categories', () => {
+    expect(categorizeEndpoint('/report/users/me/meetings')).toBe('heavy');
+    expect(categorizeEndpoint('/users/me/recordings')).toBe('medium');
+    expect(categorizeEndpoint('https://zoom.us/rec/download/abc')).toBe('medium');
+    expect(categorizeEndpoint('/meetings/abc/meeting_summary')).toBe('light');
+  });
+});
@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { RunLock } from '../../src/services/run-lock.js';
+import { FileStateStorage } from '../../src/services/state-storage/file-storage.js';
+import { StateLockedError } from '../../src/services/state-storage/index.js';
+import { logger } from '../../src/utils/logger.js';
+
+const LOCK_TIMEOUT_MS = 60 * 60 * 1000;
+
+let tempDir: string;
+let stateFilePath: string;
+
+function createRunLock(): RunLock {
+  return new RunLock(new FileStateStorage(stateFilePath, LOCK_TIMEOUT_MS));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-lock-'));
+  stateFilePath = path.join(tempDir, '.state.json');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('RunLock', () => {
+  it('keeps a second run out until the first releases the lock', async () => {
+    const first = createRunLock();
+    const second = createRunLock();
+
+    await first.acquire();
+    await expect(second.acquire()).rejects.toThrow(StateLockedError);
+
+    await first.release();
+    await second.acquire();
+    await second.release();
+
+    await expect(fs.access(`${stateFilePath}.lock`)).rejects.toThrow();
+  });
+
+  it('releases only a lock it holds', async () => {
+    const first = createRunLock();
+    const second = createRunLock();
+
+    await first.acquire();
+    await expect(second.acquire()).rejects.toThrow(StateLockedError);
+    await second.release();
+
+    await fs.access(`${stateFilePath}.lock`);
+    await first.release();
+  });
+
+  it('stops listening for signals once released', async () => {
+    const listeners = process.listenerCount('SIGTERM');
+    const runLock = createRunLock();
+
+    await runLock.acquire();
+    expect(process.listenerCount('SIGTERM')).toBe(listeners + 1);
+
+    await runLock.release();
+    expect(process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { StateManager } from '../../src/services/state-manager.js';
+import { FileStateStorage } from '../../src/services/state-storage/file-storage.js';
+import type { StateStorage } from '../../src/services/state-storage/index.js';
+import { logger } from '../../src/utils/logger.js';
+
+let tempDir: string;
+let stateFilePath: string;
+
+function createStateManager(): StateManager {
+  return new StateManager(new FileStateStorage(stateFilePath, 0));
+}
+
+async function readStateFile(): Promise<Record<string, unknown>> {
+  return JSON.parse(await fs.readFile(stateFilePath, 'utf-8'));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'state-manager-'));
+  stateFilePath = path.join(tempDir, '.state.json');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('StateManager.load', () => {
+  it('starts fresh when there is no state yet', async () => {
+    const stateManager = createStateManager();
+
+    await stateManager.load();
+
+    expect(stateManager.getState()).toMatchObject({ version: 1, processedRecordings: {} });
+  });
+
+  it('reads back what was saved', async () => {
+    const first = createStateManager();
+    await first.load();
+    first.addProcessedRecording({
+      uuid: 'abc==',
+      meetingId: '845',
+      processedAt: '2024-12-06T19:00:00.000Z',
+      filePath: 'notes/planning.md',
+      hash: '0123456789abcdef',
+    });
+    first.updateLastFetchTimestamp('2024-12-06T18:00:00Z');
+    await first.save();
+
+    const second = createStateManager();
+    await second.load();
+
+    expect(second.isProcessed('abc==')).toBe(true);
+    expect(second.getLastFetchTimestamp()).toBe('2024-12-06T18:00:00Z');
+    expect(second.getState().statistics.totalMeetings).toBe(1);
+  });
+
+  it('migrates an unversioned state file and saves it with the version', async () => {
+    await fs.writeFile(
+      stateFilePath,
+      JSON.stringify({
+        lastFetchTimestamp: '2024-12-01T00:00:00.000Z',
+        processedRecordings: {},
+        statistics: {
+          totalMeetings: 0,
+          lastRunStatus: 'success',
+          lastRunAt: '2024-12-01T00:00:00.000Z',
+          consecutiveFailures: 0,
+        },
+      })
+    );
+    const stateManager = createStateManager();
+
+    await stateManager.load();
+    await stateManager.save();
+
+    expect(await readStateFile()).toMatchObject({
+      version: 1,
+      lastFetchTimestamp: '2024-12-01T00:00:00.000Z',
+    });
+  });
+
+  it('fails on a corrupt state file instead of starting fresh, pointing to the backup', async () => {
+    await fs.writeFile(stateFilePath, '{"version": 1, "processedRecor');
+    const stateManager = createStateManager();
+
+    await expect(stateManager.load()).rejects.toThrow(
+      new RegExp(
+        `State ${stateFilePath} cannot be loaded: .*JSON.*\\.state\\.json\\.bak.*delete it only to re-archive`
+      )
+    );
+    expect(await fs.readFile(stateFilePath, 'utf-8')).toBe('{"version": 1, "processedRecor');
+  });
+
+  it('fails on state that does not match the schema', async () => {
+    await fs.writeFile(stateFilePath, JSON.stringify({ version: 1, processedRecordings: [] }));
+
+    await expect(createStateManager().load()).rejects.toThrow(
+      /does not match the expected schema: lastFetchTimestamp: Required/
+    );
+  });
+});
+
+describe('StateManager.save', () => {
+  it('publishes only on save, not on checkpoints during the run', async () => {
+    const calls: string[] = [];
+    const storage: StateStorage = {
+      location: 'memory',
+      trackedFiles: [],
+      read: async () => undefined,
+      write: async () => void calls.push('write'),
+      publish: async () => void calls.push('publish'),
+      acquireLock: async () => {},
+      releaseLock: async () => {},
+    };
+    const stateManager = new StateManager(storage);
+
+    await stateManager.checkpoint();
+    await stateManager.checkpoint();
+    await stateManager.save();
+
+    expect(calls).toEqual(['write', 'write', 'write', 'publish']);
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { FileLock } from '../../../src/services/state-storage/file-lock.js';
+import { StateLockedError, type LockHolder } from '../../../src/services/state-storage/index.js';
+import { logger } from '../../../src/utils/logger.js';
+
+const LOCK_TIMEOUT_MS = 60 * 60 * 1000;
+
+// A holder on this host whose process is gone, as left behind by a crashed run
+const CRASHED_RUN: LockHolder = { host: os.hostname(), pid: 2 ** 22 };
+const LIVE_RUN: LockHolder = { host: os.hostname(), pid: process.pid };
+
+let tempDir: string;
+let lockFilePath: string;
+
+function createLock(timeoutMs = LOCK_TIMEOUT_MS): FileLock {
+  return new FileLock(lockFilePath, '.state.json', timeoutMs);
+}
+
+async function writeLockFile(holder: LockHolder, acquiredAt: Date): Promise<void> {
+  await fs.writeFile(
+    lockFilePath,
+    JSON.stringify({ ...holder, acquiredAt: acquiredAt.toISOString() })
+  );
+}
+
+async function readLockFile(): Promise<Record<string, unknown>> {
+  return JSON.parse(await fs.readFile(lockFilePath, 'utf-8'));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+  lockFilePath = path.join(tempDir, '.state.json.lock');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('FileLock', () => {
+  it('records the holder and removes the lock file on release', async () => {
+    const lock = createLock();
+
+    await lock.acquire({ ...LIVE_RUN, runId: '42/1' });
+
+    expect(await readLockFile()).toMatchObject({ pid: process.pid, runId: '42/1' });
+
+    await lock.release();
+    await expect(fs.access(lockFilePath)).rejects.toThrow();
+  });
+
+  it('refuses a lock that is still held, naming its holder', async () => {
+    await createLock().acquire({ ...LIVE_RUN, runId: '42/1' });
+
+    const error = await createLock()
+      .acquire(LIVE_RUN)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(StateLockedError);
+    expect((error as StateLockedError).message).toMatch(/locked by pid \d+ on .+, run 42\/1/);
+  });
+
+  it('takes over a lock whose process no longer exists on this host', async () => {
+    await writeLockFile(CRASHED_RUN, new Date());
+
+    await createLock().acquire(LIVE_RUN);
+
+    expect(await readLockFile()).toMatchObject({ pid: process.pid });
+  });
+
+  it('takes over a lock from another host once it is older than the timeout', async () => {
+    const otherHost = { host: 'other-runner', pid: 1234 };
+    await writeLockFile(otherHost, new Date(Date.now() - 2 * 60 * 1000));
+
+    await expect(createLock(5 * 60 * 1000).acquire(LIVE_RUN)).rejects.toBeInstanceOf(
+      StateLockedError
+    );
+    await expect(createLock(60 * 1000).acquire(LIVE_RUN)).resolves.toBeUndefined();
+  });
+
+  it('leaves the lock file alone when another run took the lock over', async () => {
+    const slow = createLock();
+    await slow.acquire(CRASHED_RUN);
+    await createLock().acquire(LIVE_RUN);
+
+    await slow.release();
+
+    expect(await readLockFile()).toMatchObject({ pid: process.pid });
+    await expect(createLock().acquire(LIVE_RUN)).rejects.toBeInstanceOf(StateLockedError);
+  });
+
+  it('does nothing on release when the lock was never taken', async () => {
+    await writeLockFile(LIVE_RUN, new Date());
+
+    await createLock().release();
+
+    expect(await readLockFile()).toMatchObject({ pid: process.pid });
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileStateStorage } from '../../../src/services/state-storage/file-storage.js';
+import { StateLockedError } from '../../../src/services/state-storage/index.js';
+import { logger } from '../../../src/utils/logger.js';
+
+let tempDir: string;
+let stateFilePath: string;
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-storage-'));
+  stateFilePath = path.join(tempDir, '.state.json');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('FileStateStorage', () => {
+  it('starts without state and reads back what was written', async () => {
+    const storage = new FileStateStorage(stateFilePath, 0);
+
+    expect(await storage.read()).toBeUndefined();
+    await storage.write('{"n":1}');
+    await storage.publish();
+
+    expect(await new FileStateStorage(stateFilePath, 0).read()).toBe('{"n":1}');
+  });
+
+  it('writes a temp file and renames it over the state file', async () => {
+    const rename = vi.spyOn(fs, 'rename');
+
+    await new FileStateStorage(stateFilePath, 0).write('{"n":1}');
+
+    expect(rename).toHaveBeenCalledWith(`${stateFilePath}.tmp`, stateFilePath);
+    expect(await fs.readdir(tempDir)).toEqual(['.state.json']);
+    rename.mockRestore();
+  });
+
+  it('keeps the old state and removes the temp file when the write fails', async () => {
+    await fs.writeFile(stateFilePath, '{"n":1}');
+    const rename = vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(new FileStateStorage(stateFilePath, 0).write('{"n":2}')).rejects.toThrow(
+      'disk full'
+    );
+
+    expect(await fs.readFile(stateFilePath, 'utf-8')).toBe('{"n":1}');
+    await expect(fs.access(`${stateFilePath}.tmp`)).rejects.toThrow();
+    rename.mockRestore();
+  });
+
+  it('backs up the state a run started from, once per run', async () => {
+    await fs.writeFile(stateFilePath, '{"run":1}');
+    const storage = new FileStateStorage(stateFilePath, 0);
+
+    await storage.write('{"run":2,"meeting":1}');
+    await storage.write('{"run":2,"meeting":2}');
+
+    expect(await fs.readFile(`${stateFilePath}.bak`, 'utf-8')).toBe('{"run":1}');
+    expect(storage.backupHint).toContain(`${stateFilePath}.bak`);
+
+    await new FileStateStorage(stateFilePath, 0).write('{"run":3}');
+    expect(await fs.readFile(`${stateFilePath}.bak`, 'utf-8')).toBe('{"run":2,"meeting":2}');
+  });
+
+  it('commits the state file together with the notes', () => {
+    expect(new FileStateStorage(stateFilePath, 0).trackedFiles).toEqual([stateFilePath]);
+  });
+
+  it('locks with a lock file next to the state file', async () => {
+    const first = new FileStateStorage(stateFilePath, 60 * 60 * 1000);
+    const second = new FileStateStorage(stateFilePath, 60 * 60 * 1000);
+    const holder = { host: os.hostname(), pid: process.pid };
+
+    await first.acquireLock(holder);
+    await expect(fs.access(`${stateFilePath}.lock`)).resolves.toBeUndefined();
+    await expect(second.acquireLock(holder)).rejects.toBeInstanceOf(StateLockedError);
+
+    await first.releaseLock();
+    await expect(second.acquireLock(holder)).resolves.toBeUndefined();
+  });
+});
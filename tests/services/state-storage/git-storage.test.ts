@@ -0,0 +1,204 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { simpleGit } from 'simple-git';
+import { GitStateStorage } from '../../../src/services/state-storage/git-storage.js';
+import { StateLockedError, type LockHolder } from '../../../src/services/state-storage/index.js';
+import { logger } from '../../../src/utils/logger.js';
+import type { GitPublishConfig } from '../../../src/types/index.js';
+
+const GIT_CONFIG: GitPublishConfig = {
+  enabled: false,
+  push: false,
+  remote: 'origin',
+  authorName: 'Test Bot',
+  authorEmail: 'bot@example.com',
+  maxPushAttempts: 3,
+};
+const BRANCH = 'zoom-notes-state';
+const LOCK_TIMEOUT_MS = 60 * 60 * 1000;
+
+// A holder on this host whose process is gone, as left behind by a crashed run
+const CRASHED_RUN: LockHolder = { host: os.hostname(), pid: 2 ** 22 };
+const LIVE_RUN: LockHolder = { host: os.hostname(), pid: process.pid };
+
+let tempDir: string;
+let remoteDir: string;
+
+/**
+ * Clone the bare remote into a new working copy
+ */
+async function cloneRemote(name: string): Promise<string> {
+  const dir = path.join(tempDir, name);
+  await simpleGit().clone(remoteDir, dir);
+  return dir;
+}
+
+/**
+ * Commit the branch points to in a repository, or undefined if it does not exist
+ */
+async function branchCommit(dir: string, branch: string): Promise<string | undefined> {
+  const ref = await simpleGit(dir).raw([
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `refs/heads/${branch}`,
+  ]);
+  return ref.trim() || undefined;
+}
+
+async function storedState(dir: string): Promise<string> {
+  return simpleGit(dir).show([`refs/heads/${BRANCH}:state.json`]);
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-storage-'));
+  remoteDir = path.join(tempDir, 'remote.git');
+  await simpleGit().init(true, [remoteDir, '--initial-branch=main']);
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('GitStateStorage with a remote', () => {
+  it('commits every save locally and pushes only the last one on publish', async () => {
+    const storage = new GitStateStorage(await cloneRemote('run'), BRANCH, GIT_CONFIG, 0);
+
+    expect(await storage.read()).toBeUndefined();
+    await storage.write('{"n":1}');
+    await storage.write('{"n":2}');
+
+    expect(await branchCommit(remoteDir, BRANCH)).toBeUndefined();
+
+    await storage.publish();
+
+    expect(await storedState(remoteDir)).toBe('{"n":2}');
+    const log = await simpleGit(remoteDir).log([`refs/heads/${BRANCH}`]);
+    expect(log.all.map((commit) => commit.message)).toEqual([
+      'Update archiver state',
+      'Update archiver state',
+    ]);
+    expect(log.latest?.author_name).toBe('Test Bot');
+
+    // A later run reads the published state and builds on it
+    const next = new GitStateStorage(await cloneRemote('next'), BRANCH, GIT_CONFIG, 0);
+    expect(await next.read()).toBe('{"n":2}');
+  });
+
+  it('does not touch the working tree, index or current branch', async () => {
+    const workspace = await cloneRemote('run');
+    await fs.writeFile(path.join(workspace, 'staged.md'), 'staged\n');
+    await simpleGit(workspace).add('staged.md');
+    const storage = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, 0);
+
+    await storage.read();
+    await storage.write('{}');
+    await storage.publish();
+
+    const status = await simpleGit(workspace).status();
+    expect(status.staged).toEqual(['staged.md']);
+    expect(status.not_added).toEqual([]);
+    await expect(fs.access(path.join(workspace, 'state.json'))).rejects.toThrow();
+  });
+
+  it('refuses to overwrite state another run published in the meantime', async () => {
+    const first = new GitStateStorage(await cloneRemote('first'), BRANCH, GIT_CONFIG, 0);
+    const second = new GitStateStorage(await cloneRemote('second'), BRANCH, GIT_CONFIG, 0);
+    await first.read();
+    await second.read();
+
+    await second.write('{"run":"second"}');
+    await second.publish();
+    await first.write('{"run":"first"}');
+
+    await expect(first.publish()).rejects.toThrow(/changed by another run/);
+    expect(await storedState(remoteDir)).toBe('{"run":"second"}');
+  });
+
+  it('keeps the lock on the remote, so runs on other machines see it', async () => {
+    const first = new GitStateStorage(
+      await cloneRemote('first'),
+      BRANCH,
+      GIT_CONFIG,
+      LOCK_TIMEOUT_MS
+    );
+    const second = new GitStateStorage(
+      await cloneRemote('second'),
+      BRANCH,
+      GIT_CONFIG,
+      LOCK_TIMEOUT_MS
+    );
+
+    await first.acquireLock(LIVE_RUN);
+
+    await expect(second.acquireLock(LIVE_RUN)).rejects.toBeInstanceOf(StateLockedError);
+    expect(await branchCommit(remoteDir, `${BRANCH}-lock`)).toBeDefined();
+
+    await first.releaseLock();
+
+    expect(await branchCommit(remoteDir, `${BRANCH}-lock`)).toBeUndefined();
+    await expect(second.acquireLock(LIVE_RUN)).resolves.toBeUndefined();
+  });
+});
+
+describe('GitStateStorage without a remote', () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = path.join(tempDir, 'local');
+    await simpleGit().init([workspace]);
+  });
+
+  it('moves the local branch on every save', async () => {
+    const storage = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, 0);
+    await storage.read();
+
+    await storage.write('{"n":1}');
+    expect(await storedState(workspace)).toBe('{"n":1}');
+
+    await storage.write('{"n":2}');
+    await storage.publish();
+    expect(await storedState(workspace)).toBe('{"n":2}');
+  });
+
+  it('reports the holder of a lock that is still held', async () => {
+    const first = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    const second = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    await first.acquireLock({ ...LIVE_RUN, runId: '42/1' });
+
+    const error = await second.acquireLock(LIVE_RUN).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(StateLockedError);
+    expect((error as StateLockedError).holder).toMatchObject({ pid: process.pid, runId: '42/1' });
+  });
+
+  it('takes over the lock of a crashed run', async () => {
+    const crashed = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    const next = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    await crashed.acquireLock(CRASHED_RUN);
+
+    await next.acquireLock(LIVE_RUN);
+
+    const lock = await simpleGit(workspace).show([`refs/heads/${BRANCH}-lock:lock.json`]);
+    expect(JSON.parse(lock)).toMatchObject({ pid: process.pid });
+  });
+
+  it('leaves the lock alone when it was taken over after going stale', async () => {
+    const slow = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    const next = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    const third = new GitStateStorage(workspace, BRANCH, GIT_CONFIG, LOCK_TIMEOUT_MS);
+    await slow.acquireLock(CRASHED_RUN);
+    await next.acquireLock(LIVE_RUN);
+
+    await slow.releaseLock();
+
+    expect(await branchCommit(workspace, `${BRANCH}-lock`)).toBeDefined();
+    await expect(third.acquireLock(LIVE_RUN)).rejects.toBeInstanceOf(StateLockedError);
+  });
+});
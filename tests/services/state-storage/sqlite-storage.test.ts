@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import initSqlJs from 'sql.js';
+import { SqliteStateStorage } from '../../../src/services/state-storage/sqlite-storage.js';
+import { StateLockedError } from '../../../src/services/state-storage/index.js';
+import { logger } from '../../../src/utils/logger.js';
+
+let tempDir: string;
+let databasePath: string;
+
+/**
+ * Rows of the state table, read straight from the database file
+ */
+async function readRows(): Promise<Record<string, string>> {
+  const SQL = await initSqlJs();
+  const database = new SQL.Database(await fs.readFile(databasePath));
+  const [result] = database.exec('SELECT name, content FROM state ORDER BY name');
+  database.close();
+  return Object.fromEntries(result.values.map(([name, content]) => [name, content]));
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-storage-'));
+  databasePath = path.join(tempDir, '.state.sqlite');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('SqliteStateStorage', () => {
+  it('starts without state and reads back what was written', async () => {
+    const storage = new SqliteStateStorage(databasePath, 0);
+
+    expect(await storage.read()).toBeUndefined();
+    await storage.write('{"n":1}');
+    await storage.publish();
+
+    expect(await new SqliteStateStorage(databasePath, 0).read()).toBe('{"n":1}');
+    expect(storage.trackedFiles).toEqual([databasePath]);
+  });
+
+  it('keeps the state a run started from as the previous row', async () => {
+    const first = new SqliteStateStorage(databasePath, 0);
+    await first.write('{"run":1}');
+
+    const second = new SqliteStateStorage(databasePath, 0);
+    await second.write('{"run":2,"meeting":1}');
+    await second.write('{"run":2,"meeting":2}');
+
+    expect(await readRows()).toEqual({
+      current: '{"run":2,"meeting":2}',
+      previous: '{"run":1}',
+    });
+    expect(second.backupHint).toMatch(/'previous' row/);
+  });
+
+  it('leaves no temp file behind', async () => {
+    await new SqliteStateStorage(databasePath, 0).write('{}');
+
+    expect(await fs.readdir(tempDir)).toEqual(['.state.sqlite']);
+  });
+
+  it('locks with a lock file next to the database', async () => {
+    const first = new SqliteStateStorage(databasePath, 60 * 60 * 1000);
+    const second = new SqliteStateStorage(databasePath, 60 * 60 * 1000);
+    const holder = { host: os.hostname(), pid: process.pid };
+
+    await first.acquireLock(holder);
+    await expect(fs.access(`${databasePath}.lock`)).resolves.toBeUndefined();
+    await expect(second.acquireLock(holder)).rejects.toBeInstanceOf(StateLockedError);
+
+    await first.releaseLock();
+    await expect(second.acquireLock(holder)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ZoomApiClient } from '../../src/services/zoom-api.js';
+import { logger } from '../../src/utils/logger.js';
+import type { ZoomParticipant } from '../../src/types/index.js';
+import {
+  sendJson,
+  startMockServer,
+  type MockHandler,
+  type MockServer,
+} from '../helpers/mock-server.js';
+
+const UUID = 'aDYlohsHRtCd4ii1uC2+hA==';
+const PARTICIPANTS_PATH = `/v2/report/meetings/${encodeURIComponent(encodeURIComponent(UUID))}/participants`;
+
+let server: MockServer | undefined;
+
+/**
+ * Start a mock Zoom API that answers API requests with the handler
+ */
+async function createClient(handler: MockHandler): Promise<ZoomApiClient> {
+  server = await startMockServer((req, res) => {
+    if (req.url?.startsWith('/oauth')) {
+      sendJson(res, 200, { access_token: 'token', expires_in: 3600 });
+      return;
+    }
+    return handler(req, res);
+  });
+
+  return new ZoomApiClient(
+    {
+      accountId: 'account',
+      clientId: 'client',
+      clientSecret: 'secret',
+      apiBaseUrl: `${server.url}/v2`,
+      oauthUrl: `${server.url}/oauth/token`,
+    },
+    {
+      maxAttempts: 2,
+      baseDelayMs: 10,
+      maxDelayMs: 100,
+      jitter: 0,
+      timeoutMs: 5000,
+      rateLimits: { light: 100, medium: 100, heavy: 100 },
+    }
+  );
+}
+
+function participant(name: string): ZoomParticipant {
+  return {
+    name,
+    join_time: '2024-12-06T18:00:00Z',
+    leave_time: '2024-12-06T18:30:00Z',
+    duration: 1800,
+  };
+}
+
+beforeAll(() => {
+  logger.setLevel('error');
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe('ZoomApiClient.getMeetingParticipants', () => {
+  it('follows pages of the participants report', async () => {
+    const client = await createClient((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      expect(url.pathname).toBe(PARTICIPANTS_PATH);
+
+      if (url.searchParams.get('next_page_token') === 'page2') {
+        sendJson(res, 200, { participants: [participant('Bob')] });
+        return;
+      }
+      sendJson(res, 200, { participants: [participant('Jane')], next_page_token: 'page2' });
+    });
+
+    const participants = await client.getMeetingParticipants(UUID);
+
+    expect(participants.map((p) => p.name)).toEqual(['Jane', 'Bob']);
+  });
+
+  it('returns no participants when the report does not exist', async () => {
+    const notFound = await createClient((_req, res) => sendJson(res, 404, { code: 3001 }));
+    await expect(notFound.getMeetingParticipants(UUID)).resolves.toEqual([]);
+    await server?.close();
+
+    const noReport = await createClient((_req, res) =>
+      sendJson(res, 400, { code: 3001, message: 'Meeting does not exist' })
+    );
+    await expect(noReport.getMeetingParticipants(UUID)).resolves.toEqual([]);
+  });
+
+  it('fails on other errors, so the meeting is retried', async () => {
+    const unavailable = await createClient((_req, res) => sendJson(res, 503, {}));
+    await expect(unavailable.getMeetingParticipants(UUID)).rejects.toMatchObject({
+      response: { status: 503 },
+    });
+    await server?.close();
+
+    const forbidden = await createClient((_req, res) =>
+      sendJson(res, 403, { code: 4711, message: 'Invalid access token' })
+    );
+    await expect(forbidden.getMeetingParticipants(UUID)).rejects.toMatchObject({
+      response: { status: 403 },
+    });
+  });
+});
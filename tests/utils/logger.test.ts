@@ -0,0 +1,45 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { logger } from '../../src/utils/logger.js';
+
+beforeAll(() => {
+  logger.setLevel('info');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('logger.capture', () => {
+  it('holds back output until it is flushed', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { result, output } = await logger.capture(async () => {
+      logger.info('inside the task');
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(log).not.toHaveBeenCalled();
+
+    logger.flush(output);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('inside the task'));
+  });
+
+  it('prints output of uncaptured work right away, including after it awaits', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    let shared: Promise<void> | undefined;
+
+    const { output } = await logger.capture(async () => {
+      logger.info('task');
+      shared = logger.uncaptured(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        logger.info('shared fetch');
+      });
+      await shared;
+    });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('shared fetch'));
+    expect(output.map(({ line }) => line)).toEqual([expect.stringContaining('task')]);
+  });
+});
@@ -0,0 +1,151 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PATH_PATTERN,
+  metaFilePath,
+  resolveCollision,
+  resolveNotePath,
+} from '../../src/utils/note-path.js';
+import { resolveTimezone } from '../../src/utils/timezone.js';
+import type { MeetingMetadata } from '../../src/types/index.js';
+
+const OUTPUT_DIR = path.resolve('/notes');
+
+function metadata(overrides: Partial<MeetingMetadata> = {}): MeetingMetadata {
+  return {
+    title: 'Sprint Planning',
+    meetingId: '84512345678',
+    uuid: 'aDYlohsHRtCd4ii1uC2+hA==',
+    startTime: '2024-12-06T18:00:00Z',
+    timezone: 'UTC',
+    duration: 1800,
+    host: 'sarah.chen@example.com',
+    participants: [],
+    recordingCount: 1,
+    transcriptAvailable: true,
+    ...overrides,
+  };
+}
+
+function relativeNotePath(pattern: string, overrides: Partial<MeetingMetadata> = {}): string {
+  return path.relative(OUTPUT_DIR, resolveNotePath(pattern, metadata(overrides), OUTPUT_DIR));
+}
+
+describe('resolveNotePath', () => {
+  it('fills in the default pattern', () => {
+    expect(relativeNotePath(DEFAULT_PATH_PATTERN)).toBe(
+      path.join('2024', '12', '06', 'sprint-planning-aDYlohsHRtCd.md')
+    );
+  });
+
+  it('buckets a late-evening meeting by its local date, not the UTC date', () => {
+    // 7:30 PM on December 6 in Los Angeles is already December 7 in UTC
+    const lateEvening = { startTime: '2024-12-07T03:30:00Z' };
+
+    expect(
+      relativeNotePath('{yyyy}/{MM}/{dd}/{topic}', {
+        ...lateEvening,
+        timezone: 'America/Los_Angeles',
+      })
+    ).toBe(path.join('2024', '12', '06', 'sprint-planning.md'));
+    expect(relativeNotePath('{yyyy}/{MM}/{dd}/{topic}', { ...lateEvening, timezone: 'UTC' })).toBe(
+      path.join('2024', '12', '07', 'sprint-planning.md')
+    );
+  });
+
+  it('buckets in DISPLAY_TIMEZONE when set, else in the meeting zone', () => {
+    // 00:30 on January 1 in Tokyo is still December 31 in New York
+    const start = { startTime: '2024-12-31T15:30:00Z' };
+    const meetingZone = 'Asia/Tokyo';
+
+    expect(
+      relativeNotePath('{date}', { ...start, timezone: resolveTimezone(undefined, meetingZone) })
+    ).toBe('2025-01-01.md');
+    expect(
+      relativeNotePath('{date}', {
+        ...start,
+        timezone: resolveTimezone('America/New_York', meetingZone),
+      })
+    ).toBe('2024-12-31.md');
+  });
+
+  it('uses the local date on daylight saving days', () => {
+    // 23:30 EDT on the day before the fall-back change, 23:30 EST on the day itself
+    expect(
+      relativeNotePath('{date}-{HHmm}', {
+        startTime: '2024-11-03T03:30:00Z',
+        timezone: 'America/New_York',
+      })
+    ).toBe('2024-11-02-2330.md');
+    expect(
+      relativeNotePath('{date}-{HHmm}', {
+        startTime: '2024-11-04T04:30:00Z',
+        timezone: 'America/New_York',
+      })
+    ).toBe('2024-11-03-2330.md');
+  });
+
+  it('fills in the remaining tokens', () => {
+    expect(relativeNotePath('{series}/{host}/{week}-{yyyy-MM-dd}')).toBe(
+      path.join('84512345678', 'sarahchen', '49-2024-12-06.md')
+    );
+  });
+
+  it('pairs the ISO week with its own year at the turn of the year', () => {
+    // December 30, 2024 is in week 1 of 2025; January 1, 2021 is in week 53 of 2020
+    expect(relativeNotePath('{weekYear}/W{week}', { startTime: '2024-12-30T12:00:00Z' })).toBe(
+      path.join('2025', 'W01.md')
+    );
+    expect(relativeNotePath('{weekYear}/W{week}', { startTime: '2021-01-01T12:00:00Z' })).toBe(
+      path.join('2020', 'W53.md')
+    );
+  });
+
+  it('rejects unknown tokens', () => {
+    expect(() => relativeNotePath('{nope}/{topic}')).toThrow('Unknown token {nope}');
+  });
+
+  it('keeps notes inside the output directory', () => {
+    expect(() => relativeNotePath('../{topic}')).toThrow('outside the output directory');
+  });
+});
+
+describe('resolveCollision', () => {
+  const notePath = path.join(OUTPUT_DIR, '2024', '12', '06', 'standup.md');
+
+  it('treats paths planned earlier in a dry run as taken', async () => {
+    const planned = new Map([[notePath, 'first-meeting']]);
+
+    await expect(resolveCollision(notePath, 'second-meeting', 'suffix', planned)).resolves.toBe(
+      path.join(OUTPUT_DIR, '2024', '12', '06', 'standup-2.md')
+    );
+    await expect(resolveCollision(notePath, 'second-meeting', 'skip', planned)).resolves.toBeNull();
+  });
+
+  it('skips past suffixes planned for other meetings', async () => {
+    const suffixed = path.join(OUTPUT_DIR, '2024', '12', '06', 'standup-2.md');
+    const planned = new Map([
+      [notePath, 'first-meeting'],
+      [suffixed, 'second-meeting'],
+    ]);
+
+    await expect(resolveCollision(notePath, 'third-meeting', 'suffix', planned)).resolves.toBe(
+      path.join(OUTPUT_DIR, '2024', '12', '06', 'standup-3.md')
+    );
+    await expect(
+      resolveCollision(notePath, 'second-meeting', 'suffix', planned)
+    ).resolves.toBeNull();
+  });
+
+  it('uses a free path as is', async () => {
+    await expect(resolveCollision(notePath, 'first-meeting', 'suffix')).resolves.toBe(notePath);
+  });
+});
+
+describe('metaFilePath', () => {
+  it('puts the metadata file next to the note', () => {
+    expect(metaFilePath(path.join(OUTPUT_DIR, '2024', 'planning.md'))).toBe(
+      path.join(OUTPUT_DIR, '2024', 'planning.meta.json')
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { STATE_VERSION, parseState } from '../../src/utils/state-schema.js';
+
+/**
+ * State as written before the version field existed
+ */
+function unversionedState(): Record<string, unknown> {
+  return {
+    lastFetchTimestamp: '2024-12-01T00:00:00.000Z',
+    processedRecordings: {
+      'abc==': {
+        uuid: 'abc==',
+        meetingId: '845',
+        processedAt: '2024-12-06T19:00:00.000Z',
+        filePath: 'meeting-notes/2024/12/06/planning.md',
+        hash: '0123456789abcdef',
+      },
+    },
+    statistics: {
+      totalMeetings: 1,
+      lastRunStatus: 'success',
+      lastRunAt: '2024-12-06T19:00:00.000Z',
+      consecutiveFailures: 0,
+    },
+  };
+}
+
+describe('parseState', () => {
+  it('migrates state without a version to the current version', () => {
+    const state = parseState(unversionedState());
+
+    expect(STATE_VERSION).toBe(1);
+    expect(state.version).toBe(1);
+    expect(state.processedRecordings['abc=='].filePath).toBe(
+      'meeting-notes/2024/12/06/planning.md'
+    );
+  });
+
+  it('accepts current state and keeps fields it does not know', () => {
+    const state = parseState({ ...unversionedState(), version: STATE_VERSION, extra: true });
+
+    expect(state).toMatchObject({ version: STATE_VERSION, extra: true });
+  });
+
+  it('rejects state from a newer release', () => {
+    expect(() => parseState({ ...unversionedState(), version: STATE_VERSION + 1 })).toThrow(
+      /newer than this release supports/
+    );
+  });
+
+  it('rejects documents that are not state objects', () => {
+    expect(() => parseState([])).toThrow('state is not a JSON object');
+    expect(() => parseState(null)).toThrow('state is not a JSON object');
+    expect(() => parseState({ ...unversionedState(), version: '1' })).toThrow(
+      'invalid state version: "1"'
+    );
+  });
+
+  it('names the fields that do not match the schema', () => {
+    const data = unversionedState();
+    delete (data.processedRecordings as Record<string, Record<string, unknown>>)['abc=='].filePath;
+    data.lastFetchTimestamp = 'yesterday';
+
+    expect(() => parseState(data)).toThrow(
+      /lastFetchTimestamp: Invalid datetime.*processedRecordings\.abc==\.filePath: Required/
+    );
+  });
+});
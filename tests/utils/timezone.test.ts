@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatInTimezone,
+  isValidTimezone,
+  resolveTimezone,
+  timezoneAbbreviation,
+  toIsoWithOffset,
+} from '../../src/utils/timezone.js';
+
+describe('toIsoWithOffset', () => {
+  it('switches offset at the spring-forward instant', () => {
+    // 2024-03-10 02:00 EST jumps to 03:00 EDT
+    expect(toIsoWithOffset('2024-03-10T06:59:59Z', 'America/New_York')).toBe(
+      '2024-03-10T01:59:59-05:00'
+    );
+    expect(toIsoWithOffset('2024-03-10T07:00:00Z', 'America/New_York')).toBe(
+      '2024-03-10T03:00:00-04:00'
+    );
+  });
+
+  it('switches offset at the fall-back instant', () => {
+    // 2024-11-03 02:00 EDT falls back to 01:00 EST, so 01:xx happens twice
+    expect(toIsoWithOffset('2024-11-03T05:30:00Z', 'America/New_York')).toBe(
+      '2024-11-03T01:30:00-04:00'
+    );
+    expect(toIsoWithOffset('2024-11-03T06:30:00Z', 'America/New_York')).toBe(
+      '2024-11-03T01:30:00-05:00'
+    );
+  });
+
+  it('handles zones that change on other dates', () => {
+    // Europe moves its clocks on the last Sunday of March, at 01:00 UTC
+    expect(toIsoWithOffset('2024-03-31T00:59:00Z', 'Europe/London')).toBe('2024-03-31T00:59:00Z');
+    expect(toIsoWithOffset('2024-03-31T01:00:00Z', 'Europe/London')).toBe(
+      '2024-03-31T02:00:00+01:00'
+    );
+  });
+
+  it('defaults to UTC', () => {
+    expect(toIsoWithOffset('2024-12-06T18:00:00Z')).toBe('2024-12-06T18:00:00Z');
+  });
+});
+
+describe('timezoneAbbreviation', () => {
+  it('follows daylight saving time across the spring-forward instant', () => {
+    expect(timezoneAbbreviation('2024-03-10T09:59:59Z', 'America/Los_Angeles')).toBe('PST');
+    expect(timezoneAbbreviation('2024-03-10T10:00:00Z', 'America/Los_Angeles')).toBe('PDT');
+  });
+
+  it('follows daylight saving time across the fall-back instant', () => {
+    expect(timezoneAbbreviation('2024-11-03T08:59:59Z', 'America/Los_Angeles')).toBe('PDT');
+    expect(timezoneAbbreviation('2024-11-03T09:00:00Z', 'America/Los_Angeles')).toBe('PST');
+  });
+
+  it('shows an offset for zones without a common abbreviation', () => {
+    expect(timezoneAbbreviation('2024-07-01T12:00:00Z', 'Europe/Berlin')).toBe('GMT+2');
+    expect(timezoneAbbreviation('2024-07-01T12:00:00Z')).toBe('UTC');
+  });
+});
+
+describe('formatInTimezone', () => {
+  it('formats a late-evening meeting on its local date', () => {
+    const start = '2024-12-07T03:30:00Z'; // 7:30 PM on December 6 in Los Angeles
+
+    expect(formatInTimezone(start, 'MMMM d, yyyy h:mm a', 'America/Los_Angeles')).toBe(
+      'December 6, 2024 7:30 PM'
+    );
+    expect(formatInTimezone(start, 'MMMM d, yyyy h:mm a')).toBe('December 7, 2024 3:30 AM');
+  });
+});
+
+describe('resolveTimezone', () => {
+  it('picks the first valid zone', () => {
+    expect(resolveTimezone('Europe/London', 'America/New_York')).toBe('Europe/London');
+    expect(resolveTimezone(undefined, 'America/New_York')).toBe('America/New_York');
+    expect(resolveTimezone('Mars/Olympus_Mons', 'Asia/Tokyo')).toBe('Asia/Tokyo');
+  });
+
+  it('falls back to UTC', () => {
+    expect(resolveTimezone(undefined, '')).toBe('UTC');
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA names and rejects others', () => {
+    expect(isValidTimezone('America/Los_Angeles')).toBe(true);
+    expect(isValidTimezone('Pacific Standard Time')).toBe(false);
+  });
+});